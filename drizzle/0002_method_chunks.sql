@@ -0,0 +1 @@
+ALTER TABLE "code_chunks" ADD COLUMN "parent_name" text;
\ No newline at end of file
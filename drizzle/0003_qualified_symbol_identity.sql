@@ -0,0 +1,5 @@
+DROP INDEX "chunk_unique_idx";--> statement-breakpoint
+ALTER TABLE "code_chunks" ADD COLUMN "symbol" text;--> statement-breakpoint
+UPDATE "code_chunks" SET "symbol" = "name" WHERE "symbol" IS NULL;--> statement-breakpoint
+ALTER TABLE "code_chunks" ALTER COLUMN "symbol" SET NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "chunk_symbol_unique_idx" ON "code_chunks" USING btree ("project_id","path","type","symbol");
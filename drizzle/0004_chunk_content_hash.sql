@@ -0,0 +1,2 @@
+ALTER TABLE "code_chunks" ADD COLUMN "content_hash" text;--> statement-breakpoint
+CREATE INDEX "chunk_content_hash_idx" ON "code_chunks" USING btree ("project_id","content_hash");
\ No newline at end of file
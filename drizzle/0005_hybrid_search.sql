@@ -0,0 +1,2 @@
+ALTER TABLE "code_chunks" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('simple', regexp_replace(regexp_replace(regexp_replace("symbol", '([a-z0-9])([A-Z])', '\1 \2', 'g'), '([A-Z]+)([A-Z][a-z])', '\1 \2', 'g'), '[^A-Za-z0-9]+', ' ', 'g') || ' ' || regexp_replace("symbol", '[^A-Za-z0-9_]+', ' ', 'g')), 'A') || setweight(to_tsvector('simple', "code" || ' ' || regexp_replace(regexp_replace(regexp_replace("code", '([a-z0-9])([A-Z])', '\1 \2', 'g'), '([A-Z]+)([A-Z][a-z])', '\1 \2', 'g'), '[^A-Za-z0-9]+', ' ', 'g')), 'B')) STORED;--> statement-breakpoint
+CREATE INDEX "chunk_search_vector_idx" ON "code_chunks" USING gin ("search_vector");
\ No newline at end of file
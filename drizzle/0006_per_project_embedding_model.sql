@@ -0,0 +1,5 @@
+ALTER TABLE "code_chunks" ALTER COLUMN "embedding" SET DATA TYPE vector;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "embedding_provider" text;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "embedding_model" text;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "embedding_dimensions" integer;--> statement-breakpoint
+UPDATE "projects" SET "embedding_provider" = 'openai', "embedding_model" = 'text-embedding-3-small', "embedding_dimensions" = 1536 WHERE EXISTS (SELECT 1 FROM "code_chunks" WHERE "code_chunks"."project_id" = "projects"."id" AND "code_chunks"."embedding" IS NOT NULL);
@@ -0,0 +1,3 @@
+ALTER TABLE "code_chunks" ADD COLUMN "staging_embedding" vector;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "staging_embedding_model" text;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "staging_embedding_dimensions" integer;
\ No newline at end of file
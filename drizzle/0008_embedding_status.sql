@@ -0,0 +1,3 @@
+ALTER TABLE "code_chunks" ADD COLUMN "embedding_status" text DEFAULT 'embedded' NOT NULL;--> statement-breakpoint
+ALTER TABLE "code_chunks" ADD COLUMN "embedding_error" text;--> statement-breakpoint
+UPDATE "code_chunks" SET "embedding_status" = 'skipped' WHERE "embedding" IS NULL;
\ No newline at end of file
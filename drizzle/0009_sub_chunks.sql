@@ -0,0 +1 @@
+ALTER TABLE "code_chunks" ADD COLUMN "parent_symbol" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "code_chunks" ADD COLUMN "embedding_text" text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "code_chunks" drop column "search_vector";--> statement-breakpoint
+ALTER TABLE "code_chunks" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('simple', regexp_replace(regexp_replace(regexp_replace("symbol", '([a-z0-9])([A-Z])', '\1 \2', 'g'), '([A-Z]+)([A-Z][a-z])', '\1 \2', 'g'), '[^A-Za-z0-9]+', ' ', 'g') || ' ' || regexp_replace("symbol", '[^A-Za-z0-9_]+', ' ', 'g')), 'A') || setweight(to_tsvector('simple', left("code", 100000) || ' ' || regexp_replace(regexp_replace(regexp_replace(left("code", 100000), '([a-z0-9])([A-Z])', '\1 \2', 'g'), '([A-Z]+)([A-Z][a-z])', '\1 \2', 'g'), '[^A-Za-z0-9]+', ' ', 'g')), 'B')) STORED;--> statement-breakpoint
+CREATE INDEX "chunk_search_vector_idx" ON "code_chunks" USING gin ("search_vector");
\ No newline at end of file
@@ -3,6 +3,19 @@ import { projects } from "../db/schema";
 import { CodeChunkRepository } from "../services/codeChunkRepository";
 import { ProjectService } from "../services/projectService";
 import { GitService } from "../services/gitService";
+import { EmbeddingService } from "../services/embeddingService";
+import {
+  createEmbeddingProvider,
+  loadEmbeddingConfig,
+} from "../services/embeddings";
+import {
+  VECTOR_INDEX_METHODS,
+  VECTOR_INDEX_RECOMMENDED_ROWS,
+  VectorIndexInfo,
+  VectorIndexMethod,
+} from "../services/vectorIndex";
+import { DuplicateCodeService } from "../services/duplicateCodeService";
+import { formatDuplicateReport } from "../tools/duplicates";
 import * as path from "path";
 
 // CLI 명령어 타입 정의
@@ -207,6 +220,40 @@ const repository = CodeChunkRepository.getInstance();
 const projectService = ProjectService.getInstance();
 const gitService = GitService.getInstance();
 
+/**
+ * 명령의 대상 프로젝트를 결정합니다.
+ * --project_id가 없으면 PROJECT_ID 환경 변수, 현재 디렉토리를 포함하는 등록 프로젝트 순으로 찾고,
+ * autoCreate가 켜져 있으면 현재 디렉토리의 Git 저장소를 프로젝트로 등록합니다.
+ * 찾지 못하면 사용법을 출력하고 종료합니다.
+ */
+async function resolveCommandProject(
+  parsedArgs: ParsedArgs,
+  usage: string,
+  autoCreate = false
+): Promise<{ projectId: string; created: boolean }> {
+  const projectId = parsedArgs.named.project_id || process.env.PROJECT_ID;
+  if (projectId) {
+    return { projectId, created: false };
+  }
+
+  const detected = await projectService.detectProject(process.cwd(), {
+    autoCreate,
+  });
+  if (!detected) {
+    console.error(
+      `오류: 현재 디렉토리(${process.cwd()})에 해당하는 프로젝트가 없습니다. --project_id를 지정하세요`
+    );
+    console.error(usage);
+    process.exit(1);
+  }
+
+  // --json 출력과 섞이지 않도록 표준 오류로 출력
+  console.error(
+    `현재 디렉토리에서 프로젝트를 감지했습니다: ${detected.project.name} (${detected.project.id})`
+  );
+  return { projectId: detected.project.id, created: detected.created };
+}
+
 // 프로젝트 생성 명령어
 export const createProjectCommand: CliCommand = {
   name: "create-project",
@@ -310,17 +357,20 @@ export const analyzeProjectCommand: CliCommand = {
   async execute(args: string[]) {
     // 인자 파싱 옵션
     const options: ParseOptions = {
-      requiredArgs: ["project_id"],
-      optionalArgs: [],
-      flags: ["refresh"],
+      optionalArgs: ["project_id"],
+      flags: ["refresh", "auto_create"],
       namedArgs: ["project_id"],
       descriptions: {
-        project_id: "분석할 프로젝트의 ID",
+        project_id:
+          "분석할 프로젝트의 ID (생략 시 PROJECT_ID 또는 현재 디렉토리로 감지)",
         refresh: "전체 프로젝트를 강제로 재분석 (Git 변경사항 감지 무시)",
+        auto_create:
+          "현재 디렉토리가 등록되지 않은 Git 저장소면 프로젝트로 등록한 뒤 분석",
       },
       examples: [
         "bun src/index.ts analyze-project --project_id <project_id>",
         "bun src/index.ts analyze-project --project_id <project_id> --refresh",
+        "cd <repository> && bun <AbsolutePath>/src/index.ts analyze-project --auto_create",
       ],
     };
 
@@ -335,8 +385,13 @@ export const analyzeProjectCommand: CliCommand = {
       process.exit(1);
     }
 
-    const projectId = parsedArgs.named.project_id;
-    const refresh = parsedArgs.flags.refresh;
+    const { projectId, created } = await resolveCommandProject(
+      parsedArgs,
+      generateUsage(this.name, this.description, options),
+      parsedArgs.flags.auto_create
+    );
+    // 새로 등록한 프로젝트는 커밋 해시가 이미 기록되어 있으므로 전체 분석
+    const refresh = parsedArgs.flags.refresh || created;
 
     try {
       // 환경변수에 프로젝트 ID 설정 (도구에서 사용하기 위함)
@@ -365,6 +420,24 @@ export const analyzeProjectCommand: CliCommand = {
       console.log(`- 프로젝트 ID: ${result.projectId}`);
       console.log(`- 분석된 파일 수: ${result.analyzedFiles}`);
       console.log(`- 생성된 코드 청크 수: ${result.totalChunks}`);
+      console.log(
+        `- 추가/갱신/제거된 청크 수: ${result.addedChunks}/${result.updatedChunks}/${result.removedChunks}`
+      );
+      if (result.retriedEmbeddings > 0) {
+        console.log(
+          `- 재시도로 임베딩된 청크 수: ${result.retriedEmbeddings}`
+        );
+      }
+      if (result.pendingEmbeddings > 0) {
+        console.log(
+          `- 임베딩 실패(다음 분석 때 재시도) 청크 수: ${result.pendingEmbeddings}`
+        );
+      }
+      if (result.failedFiles) {
+        console.log(
+          `- 청킹 실패(다음 분석 때 재시도) 파일: ${result.failedFiles.join(", ")}`
+        );
+      }
 
       if (result.currentCommitHash) {
         console.log(`- 현재 Git 커밋 해시: ${result.currentCommitHash}`);
@@ -420,6 +493,11 @@ export const listProjectsCommand: CliCommand = {
         if (project.lastCommitHash) {
           console.log(`마지막 분석 커밋: ${project.lastCommitHash}`);
         }
+        if (project.embeddingModel) {
+          console.log(
+            `임베딩 모델: ${project.embeddingProvider}/${project.embeddingModel} (${project.embeddingDimensions}차원)`
+          );
+        }
         console.log("");
       });
 
@@ -519,6 +597,359 @@ export const deleteProjectCommand: CliCommand = {
   },
 };
 
+// reembed-project 명령어 - 새 임베딩 모델로 프로젝트 재임베딩
+export const reembedProjectCommand: CliCommand = {
+  name: "reembed-project",
+  description:
+    "프로젝트의 모든 코드 청크를 새 임베딩 모델/차원으로 다시 임베딩합니다",
+  async execute(args: string[]) {
+    // 인자 파싱 옵션
+    const options: ParseOptions = {
+      optionalArgs: ["project_id", "provider", "model", "dimensions", "base_url"],
+      flags: [],
+      namedArgs: ["project_id", "provider", "model", "dimensions", "base_url"],
+      descriptions: {
+        project_id:
+          "재임베딩할 프로젝트 ID (생략 시 PROJECT_ID 또는 현재 디렉토리로 감지)",
+        provider:
+          "임베딩 공급자 (openai, openai-compatible, ollama, hash, 생략 시 EMBEDDING_PROVIDER)",
+        model: "임베딩 모델 이름 (생략 시 EMBEDDING_MODEL)",
+        dimensions: "벡터 차원 (생략 시 EMBEDDING_DIMENSIONS 또는 모델 기본값)",
+        base_url: "임베딩 서버 주소 (생략 시 EMBEDDING_BASE_URL)",
+      },
+      examples: [
+        "bun src/index.ts reembed-project --project_id <project_id> --model text-embedding-3-large",
+        "bun src/index.ts reembed-project --project_id <project_id> --provider ollama --model nomic-embed-text",
+      ],
+    };
+
+    // 인자 파싱
+    const parsedArgs = parseArgs(args, options);
+
+    // 필수 인자 검증
+    const validationError = validateArgs(parsedArgs, options);
+    if (validationError) {
+      console.error(`오류: ${validationError}`);
+      console.error(generateUsage(this.name, this.description, options));
+      process.exit(1);
+    }
+
+    const { projectId } = await resolveCommandProject(
+      parsedArgs,
+      generateUsage(this.name, this.description, options)
+    );
+    const { provider, model, dimensions, base_url } = parsedArgs.named;
+
+    try {
+      // 명령줄 인자가 환경 변수보다 우선
+      const config = loadEmbeddingConfig({
+        ...process.env,
+        ...(provider && { EMBEDDING_PROVIDER: provider }),
+        ...(model && { EMBEDDING_MODEL: model }),
+        ...(dimensions && { EMBEDDING_DIMENSIONS: dimensions }),
+        ...(base_url && { EMBEDDING_BASE_URL: base_url }),
+      });
+      const embeddingService = new EmbeddingService(
+        createEmbeddingProvider(config)
+      );
+
+      console.log(
+        `프로젝트 재임베딩 시작: ${projectId} -> ${config.provider}/${config.model} (${config.dimensions}차원)`
+      );
+      console.log(
+        "재임베딩 중에도 기존 임베딩으로 검색할 수 있으며, 완료 후 한 번에 교체됩니다."
+      );
+
+      const result = await projectService.reembedProject(
+        projectId,
+        embeddingService
+      );
+
+      console.log("\n재임베딩이 완료되었습니다!");
+      if (result.resumed) {
+        console.log("- 중단된 이전 재임베딩을 이어서 진행했습니다");
+      }
+      console.log(
+        `- 이전 모델: ${
+          result.previousModel
+            ? `${result.previousModel.provider}/${result.previousModel.model} (${result.previousModel.dimensions}차원)`
+            : "없음"
+        }`
+      );
+      console.log(
+        `- 새 모델: ${result.model.provider}/${result.model.model} (${result.model.dimensions}차원)`
+      );
+      console.log(`- 새로 임베딩한 청크 수: ${result.embeddedChunks}`);
+      console.log(`- 교체된 청크 수: ${result.totalChunks}`);
+      if (result.rebuiltIndexes.length > 0) {
+        console.log("- 새 차원으로 다시 생성한 벡터 인덱스:");
+        result.rebuiltIndexes.forEach(printVectorIndex);
+      }
+      console.log(
+        "\nMCP 서버와 이후 분석은 같은 EMBEDDING_* 설정으로 실행해야 합니다."
+      );
+    } catch (error: any) {
+      console.error(`프로젝트 재임베딩 중 오류가 발생했습니다: ${error.message}`);
+      process.exit(1);
+    }
+  },
+};
+
+// 인덱스 크기 표시용 변환
+function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)}${units[unit]}`;
+}
+
+// 벡터 인덱스 정보 출력
+function printVectorIndex(index: VectorIndexInfo) {
+  const parameters = Object.entries(index.parameters)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(", ");
+  console.log(
+    `- ${index.name}: ${index.method} (${index.dimensions ?? "?"}차원, ${parameters}, ${formatBytes(index.sizeBytes)})${index.valid ? "" : " [유효하지 않음: --rebuild로 다시 생성하세요]"}`
+  );
+}
+
+// build-vector-index 명령어 - 프로젝트 임베딩 ANN 인덱스 생성/재생성
+export const buildVectorIndexCommand: CliCommand = {
+  name: "build-vector-index",
+  description:
+    "프로젝트 임베딩에 대한 ANN 벡터 인덱스(HNSW/IVFFlat)를 생성하거나 다시 생성합니다",
+  async execute(args: string[]) {
+    // 인자 파싱 옵션
+    const options: ParseOptions = {
+      optionalArgs: ["project_id", "method", "m", "ef_construction", "lists"],
+      flags: ["rebuild"],
+      namedArgs: ["project_id", "method", "m", "ef_construction", "lists"],
+      descriptions: {
+        project_id:
+          "인덱스를 생성할 프로젝트 ID (생략 시 PROJECT_ID 또는 현재 디렉토리로 감지)",
+        method: "인덱스 방식 (hnsw, ivfflat, 기본값: hnsw)",
+        m: "HNSW 노드당 최대 연결 수 (기본값: 16)",
+        ef_construction: "HNSW 생성 시 후보 목록 크기 (기본값: 64)",
+        lists:
+          "IVFFlat 클러스터 수 (기본값: 임베딩된 청크 수 / 1000, 100만 개 초과 시 제곱근)",
+        rebuild: "기존 인덱스가 있으면 다시 생성 (생성 중에도 기존 인덱스로 검색 가능)",
+      },
+      examples: [
+        "bun src/index.ts build-vector-index --project_id <project_id>",
+        "bun src/index.ts build-vector-index --project_id <project_id> --method hnsw --m 32 --ef_construction 128 --rebuild",
+        "bun src/index.ts build-vector-index --project_id <project_id> --method ivfflat --lists 200",
+      ],
+    };
+
+    // 인자 파싱
+    const parsedArgs = parseArgs(args, options);
+
+    // 필수 인자 검증
+    const validationError = validateArgs(parsedArgs, options);
+    if (validationError) {
+      console.error(`오류: ${validationError}`);
+      console.error(generateUsage(this.name, this.description, options));
+      process.exit(1);
+    }
+
+    const { projectId } = await resolveCommandProject(
+      parsedArgs,
+      generateUsage(this.name, this.description, options)
+    );
+    const method = (parsedArgs.named.method || "hnsw") as VectorIndexMethod;
+    if (!VECTOR_INDEX_METHODS.includes(method)) {
+      console.error(
+        `오류: 지원하지 않는 인덱스 방식입니다: ${method} (${VECTOR_INDEX_METHODS.join(", ")})`
+      );
+      process.exit(1);
+    }
+
+    // 숫자 옵션 검증 (양의 정수)
+    const numeric: Record<string, number | undefined> = {};
+    for (const name of ["m", "ef_construction", "lists"]) {
+      const value = parsedArgs.named[name];
+      if (value === undefined) {
+        continue;
+      }
+      const parsed = Number(value);
+      if (!Number.isInteger(parsed) || parsed <= 0) {
+        console.error(`오류: ${name}은(는) 양의 정수여야 합니다: ${value}`);
+        process.exit(1);
+      }
+      numeric[name] = parsed;
+    }
+
+    try {
+      console.log(`벡터 인덱스 생성 시작: ${projectId} (${method})`);
+      const index = await projectService.buildVectorIndex(
+        projectId,
+        {
+          method,
+          m: numeric.m,
+          efConstruction: numeric.ef_construction,
+          lists: numeric.lists,
+        },
+        parsedArgs.flags.rebuild
+      );
+
+      console.log("\n벡터 인덱스가 생성되었습니다!");
+      printVectorIndex(index);
+      console.log(
+        method === "hnsw"
+          ? "\n검색 정확도는 search_code_chunks의 efSearch 인자 또는 VECTOR_EF_SEARCH 환경 변수로 조정할 수 있습니다."
+          : "\n검색 정확도는 search_code_chunks의 probes 인자 또는 VECTOR_PROBES 환경 변수로 조정할 수 있습니다."
+      );
+    } catch (error: any) {
+      console.error(`벡터 인덱스 생성 중 오류가 발생했습니다: ${error.message}`);
+      process.exit(1);
+    }
+  },
+};
+
+// vector-index-status 명령어 - 프로젝트별 벡터 인덱스 상태 조회
+export const vectorIndexStatusCommand: CliCommand = {
+  name: "vector-index-status",
+  description: "프로젝트별 벡터 인덱스 상태를 조회합니다",
+  async execute(args: string[]) {
+    // 인자 파싱 옵션
+    const options: ParseOptions = {
+      optionalArgs: ["project_id"],
+      namedArgs: ["project_id"],
+      descriptions: {
+        project_id: "조회할 프로젝트 ID (생략 시 모든 프로젝트)",
+      },
+      examples: [
+        "bun src/index.ts vector-index-status",
+        "bun src/index.ts vector-index-status --project_id <project_id>",
+      ],
+    };
+
+    const parsedArgs = parseArgs(args, options);
+
+    try {
+      const statuses = await projectService.getVectorIndexStatus(
+        parsedArgs.named.project_id
+      );
+
+      console.log("벡터 인덱스 상태:\n");
+      statuses.forEach((status) => {
+        console.log(`프로젝트: ${status.projectName} (${status.projectId})`);
+        console.log(
+          `임베딩: ${status.embeddedChunks}개 청크${
+            status.dimensions ? `, ${status.dimensions}차원` : ""
+          }`
+        );
+        if (status.indexes.length > 0) {
+          status.indexes.forEach(printVectorIndex);
+        } else {
+          console.log("- 인덱스 없음 (전체 스캔으로 정확한 검색)");
+          if (status.embeddedChunks >= VECTOR_INDEX_RECOMMENDED_ROWS) {
+            console.log(
+              `  청크가 많아 인덱스 생성을 권장합니다: bun src/index.ts build-vector-index --project_id ${status.projectId}`
+            );
+          }
+        }
+        console.log("");
+      });
+    } catch (error: any) {
+      console.error(
+        `벡터 인덱스 상태 조회 중 오류가 발생했습니다: ${error.message}`
+      );
+      process.exit(1);
+    }
+  },
+};
+
+// find-duplicates 명령어 - 중복 코드 클러스터 보고
+export const findDuplicatesCommand: CliCommand = {
+  name: "find-duplicates",
+  description:
+    "정확한 중복(공백 정규화 후 동일)과 임베딩 유사도 기반 유사 중복 코드를 클러스터로 보고합니다",
+  async execute(args: string[]) {
+    // 인자 파싱 옵션
+    const options: ParseOptions = {
+      optionalArgs: ["project_id", "threshold", "min_lines", "neighbors", "limit"],
+      flags: ["json"],
+      namedArgs: ["project_id", "threshold", "min_lines", "neighbors", "limit"],
+      descriptions: {
+        project_id:
+          "검사할 프로젝트 ID (생략 시 PROJECT_ID 또는 현재 디렉토리로 감지)",
+        threshold: "유사 중복으로 묶을 최소 코사인 유사도 (기본값: 0.9)",
+        min_lines: "이보다 짧은 청크는 제외 (기본값: 3)",
+        neighbors: "청크마다 확인할 최근접 청크 수 (기본값: 5)",
+        limit: "종류별 최대 클러스터 수 (기본값: 50)",
+        json: "보고서를 JSON으로 출력",
+      },
+      examples: [
+        "bun src/index.ts find-duplicates --project_id <project_id>",
+        "bun src/index.ts find-duplicates --project_id <project_id> --threshold 0.85 --min_lines 5 --json",
+      ],
+    };
+
+    // 인자 파싱
+    const parsedArgs = parseArgs(args, options);
+
+    // 필수 인자 검증
+    const validationError = validateArgs(parsedArgs, options);
+    if (validationError) {
+      console.error(`오류: ${validationError}`);
+      console.error(generateUsage(this.name, this.description, options));
+      process.exit(1);
+    }
+
+    const { threshold } = parsedArgs.named;
+    if (threshold !== undefined && Number.isNaN(Number(threshold))) {
+      console.error(`오류: threshold는 숫자여야 합니다: ${threshold}`);
+      process.exit(1);
+    }
+
+    // 정수 옵션 검증 (양의 정수)
+    const numeric: Record<string, number | undefined> = {};
+    for (const name of ["min_lines", "neighbors", "limit"]) {
+      const value = parsedArgs.named[name];
+      if (value === undefined) {
+        continue;
+      }
+      const parsed = Number(value);
+      if (!Number.isInteger(parsed) || parsed <= 0) {
+        console.error(`오류: ${name}은(는) 양의 정수여야 합니다: ${value}`);
+        process.exit(1);
+      }
+      numeric[name] = parsed;
+    }
+
+    const { projectId } = await resolveCommandProject(
+      parsedArgs,
+      generateUsage(this.name, this.description, options)
+    );
+
+    try {
+      const report = await DuplicateCodeService.getInstance().findDuplicates(
+        projectId,
+        {
+          threshold: threshold !== undefined ? Number(threshold) : undefined,
+          minLines: numeric.min_lines,
+          neighbors: numeric.neighbors,
+          limit: numeric.limit,
+        }
+      );
+
+      console.log(
+        parsedArgs.flags.json
+          ? JSON.stringify(report, null, 2)
+          : formatDuplicateReport(report)
+      );
+    } catch (error: any) {
+      console.error(`중복 코드 탐지 중 오류가 발생했습니다: ${error.message}`);
+      process.exit(1);
+    }
+  },
+};
+
 // 도움말 표시 함수
 export function showHelp() {
   console.log("MCP 코드베이스 CLI");
@@ -527,6 +958,10 @@ export function showHelp() {
   console.log("  list-projects     저장된 프로젝트 목록 조회");
   console.log("  analyze-project   프로젝트 분석 및 임베딩 생성");
   console.log("  delete-project    프로젝트와 관련된 모든 코드 청크를 삭제");
+  console.log("  reembed-project   새 임베딩 모델로 프로젝트 재임베딩");
+  console.log("  build-vector-index   프로젝트 임베딩 ANN 인덱스 생성/재생성");
+  console.log("  vector-index-status  프로젝트별 벡터 인덱스 상태 조회");
+  console.log("  find-duplicates   중복/유사 중복 코드 클러스터 보고");
   console.log("\n자세한 도움말은 다음과 같이 입력하세요:");
   console.log("  bun src/index.ts <명령어> --help");
 }
@@ -537,6 +972,10 @@ export const commands: CliCommand[] = [
   listProjectsCommand,
   analyzeProjectCommand,
   deleteProjectCommand,
+  reembedProjectCommand,
+  buildVectorIndexCommand,
+  vectorIndexStatusCommand,
+  findDuplicatesCommand,
 ];
 
 // 명령어 실행 함수
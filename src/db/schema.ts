@@ -5,9 +5,42 @@ import {
   timestamp,
   uuid,
   jsonb,
-  vector,
   uniqueIndex,
+  index,
+  customType,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+// PostgreSQL 전문 검색용 tsvector 타입
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// 차원을 고정하지 않는 pgvector 타입 (프로젝트마다 임베딩 모델의 차원이 다를 수 있음)
+const vector = customType<{ data: number[]; driverData: string }>({
+  dataType() {
+    return "vector";
+  },
+  toDriver(value) {
+    return JSON.stringify(value);
+  },
+  fromDriver(value) {
+    return value
+      .slice(1, -1)
+      .split(",")
+      .map((v) => Number.parseFloat(v));
+  },
+});
+
+// 렉시컬 검색용 벡터에 색인할 코드의 최대 길이 (문자 수)
+// to_tsvector 결과가 1MB를 넘으면 오류가 나 생성 컬럼을 가진 행의 삽입 전체가 실패하므로 앞부분만 색인
+const SEARCH_VECTOR_MAX_CODE_LENGTH = 100_000;
+
+// camelCase / PascalCase / snake_case 식별자를 단어 단위로 분리하는 SQL 식
+const splitIdentifiers = (column: string) =>
+  `regexp_replace(regexp_replace(regexp_replace(${column}, '([a-z0-9])([A-Z])', '\\1 \\2', 'g'), '([A-Z]+)([A-Z][a-z])', '\\1 \\2', 'g'), '[^A-Za-z0-9]+', ' ', 'g')`;
 
 // 프로젝트 테이블
 export const projects = pgTable("projects", {
@@ -16,6 +49,13 @@ export const projects = pgTable("projects", {
   path: text("path").notNull(),
   description: text("description"),
   lastCommitHash: text("last_commit_hash"),
+  // 프로젝트 청크를 임베딩한 공급자/모델/차원 (첫 분석 시 기록, 검색 시 같은 설정인지 확인)
+  embeddingProvider: text("embedding_provider"),
+  embeddingModel: text("embedding_model"),
+  embeddingDimensions: integer("embedding_dimensions"),
+  // 재임베딩 중인 대상 모델/차원 (staging_embedding 컬럼을 채우는 중이면 설정됨)
+  stagingEmbeddingModel: text("staging_embedding_model"),
+  stagingEmbeddingDimensions: integer("staging_embedding_dimensions"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -31,24 +71,68 @@ export const codeChunks = pgTable(
     path: text("path").notNull(),
     code: text("code").notNull(),
     type: text("type", {
-      enum: ["function", "class", "type", "constant"],
+      enum: ["function", "class", "method", "type", "constant"],
     }).notNull(),
     name: text("name").notNull(),
+    // 포함 관계를 반영한 한정 심볼 경로 (예: cliCommand.execute)
+    symbol: text("symbol").notNull(),
     lineStart: integer("line_start").notNull(),
     lineEnd: integer("line_end").notNull(),
     dependencies: jsonb("dependencies").$type<string[]>().default([]),
     dependents: jsonb("dependents").$type<string[]>().default([]),
-    embedding: vector("embedding", { dimensions: 1536 }),
+    // 메서드 청크가 속한 클래스 청크 이름
+    parentName: text("parent_name"),
+    // 토큰 한도를 넘어 분할된 하위 청크의 원본 청크 한정 심볼 경로 (원본 청크는 null)
+    parentSymbol: text("parent_symbol"),
+    // 실제로 임베딩한 입력 텍스트 (메타데이터를 포함한 임베딩 문서)
+    embeddingText: text("embedding_text"),
+    // 임베딩 입력 텍스트의 SHA-256 해시
+    contentHash: text("content_hash"),
+    // 차원은 프로젝트의 embeddingDimensions를 따름
+    embedding: vector("embedding"),
+    // 임베딩 상태: embedded(완료), pending(실패하여 다음 분석 때 재시도), skipped(임베딩할 텍스트 없음)
+    embeddingStatus: text("embedding_status", {
+      enum: ["embedded", "pending", "skipped"],
+    })
+      .notNull()
+      .default("embedded"),
+    // 마지막 임베딩 실패 사유 (pending 상태일 때)
+    embeddingError: text("embedding_error"),
+    // 재임베딩 중 새 모델로 생성한 임베딩 (완료 시 embedding과 교체)
+    stagingEmbedding: vector("staging_embedding"),
+    // 렉시컬 검색용 벡터 (심볼 이름 가중치 A, 코드 가중치 B, 식별자는 원형과 분리형 모두 색인)
+    // 코드는 앞쪽 SEARCH_VECTOR_MAX_CODE_LENGTH자만 색인
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      sql.raw(
+        `setweight(to_tsvector('simple', ${splitIdentifiers(
+          '"symbol"'
+        )} || ' ' || regexp_replace("symbol", '[^A-Za-z0-9_]+', ' ', 'g')), 'A') || ` +
+          `setweight(to_tsvector('simple', left("code", ${SEARCH_VECTOR_MAX_CODE_LENGTH}) || ' ' || ${splitIdentifiers(
+            `left("code", ${SEARCH_VECTOR_MAX_CODE_LENGTH})`
+          )}), 'B')`
+      )
+    ),
     createdAt: timestamp("created_at").defaultNow(),
     updatedAt: timestamp("updated_at").defaultNow(),
   },
   (table) => {
     return {
-      // 고유 인덱스 추가: 프로젝트 ID, 파일 경로, 심볼 이름의 조합은 고유해야 함
-      chunkUniqueIdx: uniqueIndex("chunk_unique_idx").on(
+      // 고유 인덱스: 프로젝트 ID, 파일 경로, 청크 유형, 한정 심볼 경로의 조합은 고유해야 함
+      chunkSymbolUniqueIdx: uniqueIndex("chunk_symbol_unique_idx").on(
         table.projectId,
         table.path,
-        table.name
+        table.type,
+        table.symbol
+      ),
+      // 렉시컬 검색용 GIN 인덱스
+      chunkSearchVectorIdx: index("chunk_search_vector_idx").using(
+        "gin",
+        table.searchVector
+      ),
+      // 콘텐츠 해시 기반 임베딩 재사용 조회용 인덱스
+      chunkContentHashIdx: index("chunk_content_hash_idx").on(
+        table.projectId,
+        table.contentHash
       ),
     };
   }
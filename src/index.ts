@@ -1,37 +1,72 @@
-import { Server } from "@modelcontextprotocol/sdk/server/index.js"; // MCP 서버 import 복구
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"; // MCP 서버 import 복구
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from "@modelcontextprotocol/sdk/types.js"; // MCP 서버 import 복구
-import { fileTools } from "./tools/files.js";
-import { codeTools } from "./tools/code.js";
 import "dotenv/config"; // 환경 변수 로딩
 import { CodeChunkRepository } from "./services/codeChunkRepository"; // Repository import
 import { ProjectService } from "./services/projectService";
 import { commands, executeCommand, showHelp } from "./cli"; // CLI 명령어 파서 import
+import {
+  analyzeProjectInBackground,
+  createMcpServer,
+} from "./server/mcpServer";
+import { startHttpServer } from "./server/httpServer";
 
-// 서버 설정 (복구)
-const SERVER_CONFIG = {
-  name: "mcp_codebase",
-  version: "1.0.0",
-};
-
-// MCP에 노출될 도구 목록 (프로젝트 도구 제외) (복구)
-const mcpExposedTools = [...fileTools, ...codeTools];
+// HTTP 서버 기본 설정
+const DEFAULT_HTTP_HOST = "127.0.0.1";
+const DEFAULT_HTTP_PORT = 3000;
+// 종료 신호 후 세션과 연결 정리를 기다리는 최대 시간
+const HTTP_SHUTDOWN_TIMEOUT_MS = 10_000;
 
 // --refresh 플래그 확인 함수
 const shouldRefresh = (): boolean => {
   return process.argv.includes("--refresh");
 };
 
+// --http 플래그 또는 MCP_TRANSPORT=http 확인 함수
+const shouldServeHttp = (): boolean => {
+  return (
+    process.argv.includes("--http") || process.env.MCP_TRANSPORT === "http"
+  );
+};
+
+// --auto-create 플래그 또는 PROJECT_AUTO_CREATE=true 확인 함수
+// (감지한 디렉토리가 등록되지 않은 Git 저장소면 프로젝트로 등록하고 분석)
+const shouldAutoCreateProject = (): boolean => {
+  return (
+    process.argv.includes("--auto-create") ||
+    process.env.PROJECT_AUTO_CREATE === "true"
+  );
+};
+
+// --<name> <value> 형식의 옵션 값 조회
+const getOptionValue = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+};
+
+// HTTP 서버 호스트/포트 설정 (명령줄 옵션 > 환경 변수 > 기본값)
+const getHttpServerOptions = () => {
+  const host =
+    getOptionValue("host") || process.env.MCP_HTTP_HOST || DEFAULT_HTTP_HOST;
+  const portValue = getOptionValue("port") || process.env.MCP_HTTP_PORT;
+  const port = portValue ? Number(portValue) : DEFAULT_HTTP_PORT;
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`유효하지 않은 포트입니다: ${portValue}`);
+  }
+  return { host, port };
+};
+
 // 사용법 출력 함수
 const printUsage = () => {
   console.error("\n사용법:");
-  console.error("  MCP 서버 모드: PROJECT_ID=<project_id> bun src/index.ts");
+  console.error("  MCP 서버 모드: [PROJECT_ID=<project_id>] bun src/index.ts");
+  console.error(
+    "  자동 등록 모드: bun src/index.ts --auto-create (현재 디렉토리의 Git 저장소를 프로젝트로 등록)"
+  );
   console.error(
     "  새로고침 모드: PROJECT_ID=<project_id> bun src/index.ts --refresh"
   );
+  console.error(
+    "  HTTP 서버 모드: bun src/index.ts --http [--host 127.0.0.1] [--port 3000]"
+  );
   console.error("\n  CLI 명령어: bun src/index.ts <명령어> [인자...]");
   console.error("  사용 가능한 명령어 목록: bun src/index.ts --help");
 };
@@ -81,18 +116,77 @@ async function main() {
     }
   }
 
-  // PROJECT_ID 환경 변수 확인
-  const projectId = process.env.PROJECT_ID;
-  if (!projectId) {
-    console.error("오류: PROJECT_ID 환경변수가 설정되지 않았습니다.");
-    printUsage();
-    process.exit(1);
+  // HTTP 서버 모드 (세션마다 프로젝트를 지정하므로 PROJECT_ID는 선택 사항)
+  if (shouldServeHttp()) {
+    let options: { host: string; port: number };
+    try {
+      options = getHttpServerOptions();
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      printUsage();
+      process.exit(1);
+    }
+
+    const httpServer = startHttpServer({
+      ...options,
+      autoCreateProjects: shouldAutoCreateProject(),
+    });
+    console.error(
+      `MCP Codebase Server running on http://${options.host}:${options.port} (Streamable HTTP: /mcp, SSE: /sse, 헬스 체크: /health)`
+    );
+
+    // 종료 신호 수신 시 세션, 서버와 DB 연결 정리 (정리가 끝나지 않으면 제한 시간 후 강제 종료)
+    const shutdown = () => {
+      console.error("HTTP 서버를 종료합니다...");
+      setTimeout(() => {
+        console.error("HTTP 서버 종료 시간이 초과되어 강제 종료합니다");
+        process.exit(1);
+      }, HTTP_SHUTDOWN_TIMEOUT_MS).unref();
+
+      httpServer
+        .close()
+        .catch((error) => console.error("HTTP 서버 종료 중 오류 발생:", error))
+        .finally(() =>
+          repository.disconnect().finally(() => process.exit(0))
+        );
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+    return;
   }
 
-  console.error(`선택된 프로젝트 ID: ${projectId}`);
+  // PROJECT_ID 환경 변수 확인, 없으면 현재 디렉토리로 프로젝트 감지
+  // (MCP 서버 모드에서는 클라이언트 루트나 select_project 도구로도 선택 가능)
+  let projectId = process.env.PROJECT_ID;
+  let createdProject = false;
+  if (!projectId) {
+    try {
+      const detected = await projectService.detectProject(process.cwd(), {
+        autoCreate: shouldAutoCreateProject(),
+      });
+      if (detected) {
+        projectId = detected.project.id;
+        createdProject = detected.created;
+        console.error(
+          `현재 디렉토리에서 프로젝트를 감지했습니다: ${detected.project.name} (${detected.project.path})`
+        );
+      }
+    } catch (error) {
+      console.error("현재 디렉토리로 프로젝트 감지 중 오류 발생:", error);
+    }
+  }
+  if (projectId) {
+    console.error(`선택된 프로젝트 ID: ${projectId}`);
+  }
 
   // --refresh 플래그가 있으면 CLI 모드로 실행하고 종료
   if (shouldRefresh()) {
+    if (!projectId) {
+      console.error("오류: PROJECT_ID 환경변수가 설정되지 않았습니다.");
+      printUsage();
+      process.exit(1);
+    }
+
     console.error("CLI 모드: 코드베이스 새로고침(--refresh)을 시작합니다...");
     try {
       // 프로젝트 서비스를 통해 분석 (강제 새로고침으로 설정)
@@ -100,6 +194,24 @@ async function main() {
       console.error("코드베이스 새로고침이 성공적으로 완료되었습니다.");
       console.error(`- 분석된 파일 수: ${result.analyzedFiles}`);
       console.error(`- 생성된 코드 청크 수: ${result.totalChunks}`);
+      console.error(
+        `- 추가/갱신/제거된 청크 수: ${result.addedChunks}/${result.updatedChunks}/${result.removedChunks}`
+      );
+      if (result.retriedEmbeddings > 0) {
+        console.error(
+          `- 재시도로 임베딩된 청크 수: ${result.retriedEmbeddings}`
+        );
+      }
+      if (result.pendingEmbeddings > 0) {
+        console.error(
+          `- 임베딩 실패(다음 분석 때 재시도) 청크 수: ${result.pendingEmbeddings}`
+        );
+      }
+      if (result.failedFiles) {
+        console.error(
+          `- 청킹 실패(다음 분석 때 재시도) 파일: ${result.failedFiles.join(", ")}`
+        );
+      }
       process.exit(0); // 성공 시 종료
     } catch (error) {
       console.error("코드베이스 새로고침 중 오류 발생:", error);
@@ -108,66 +220,26 @@ async function main() {
   } else {
     // --refresh 플래그가 없으면 MCP 서버 모드로 실행
     console.error("MCP 서버 모드로 시작합니다...");
+    if (!projectId) {
+      console.error(
+        "프로젝트를 찾지 못해 프로젝트 없이 시작합니다. 클라이언트 루트로 감지하거나 list_projects, select_project 도구로 프로젝트를 선택하세요."
+      );
+    }
 
     // Create server instance with capabilities (복구)
-    const server = new Server(SERVER_CONFIG, {
-      capabilities: {
-        tools: {},
-      },
-    });
-
-    // Define available tools (MCP에 노출될 도구만 포함) (복구)
-    server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: mcpExposedTools.map((tool) => ({
-          name: tool.name,
-          description: tool.description,
-          inputSchema: tool.inputSchema,
-        })),
-      };
-    });
-
-    // Handle tool execution (MCP 노출 도구만 대상으로 함)
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: clientArgs = {} } = request.params;
-
-      // 이름으로 MCP 노출 도구 찾기
-      const tool = mcpExposedTools.find((t) => t.name === name);
-
-      if (!tool) {
-        // 이 경우는 MCP 클라이언트가 ListTools에 없는 도구를 호출하려고 시도한 경우
-        throw new Error(`MCP에서 사용할 수 없는 도구입니다: ${name}`);
-      }
-
-      try {
-        // 디버깅을 위한 로깅 추가
-        console.error(
-          `MCP 도구 실행: ${name}`,
-          JSON.stringify(clientArgs, null, 2)
-        );
-
-        // 클라이언트 인자 처리 (환경 변수에서 가져온 프로젝트 ID를 사용)
-        // projectId가 있더라도 명시적으로 제거 (도구는 환경 변수에서 가져옴)
-        const { projectId, ...cleanedArgs } = clientArgs;
-
-        // 도구 실행 시 필수 파라미터 확인
-        if (name === "search_code_chunks" && !cleanedArgs.query) {
-          throw new Error("검색어(query)가 제공되지 않았습니다");
-        }
-
-        // 도구 실행 (타입 캐스팅)
-        return await tool.execute(cleanedArgs as any);
-      } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        throw new Error(`도구 실행 중 오류 발생: ${errorMessage}`);
-      }
+    const server = createMcpServer(projectId, {
+      autoCreateProjects: shouldAutoCreateProject(),
     });
 
     // 서버 연결 (복구)
     const transport = new StdioServerTransport();
     await server.connect(transport);
     console.error("MCP Codebase Server running on stdio");
+
+    // 새로 등록한 프로젝트는 서버를 연결한 뒤 분석 (클라이언트 초기화가 지연되지 않도록)
+    if (projectId && createdProject) {
+      analyzeProjectInBackground(projectId);
+    }
   }
 }
 
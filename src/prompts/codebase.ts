@@ -0,0 +1,398 @@
+import { PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+import { Prompt } from "../types/prompt";
+import {
+  ChunkOutlineEntry,
+  CodeChunkRepository,
+} from "../services/codeChunkRepository";
+import { CodeChunk } from "../services/codeChunkingService";
+import {
+  DependencyGraphService,
+  RelatedChunk,
+} from "../services/dependencyGraphService";
+import { EmbeddingService } from "../services/embeddingService";
+import { buildOutlineTree } from "../services/chunkOutline";
+import { formatChunkResource, toChunkUri } from "../server/resources";
+import { getProjectId } from "../server/projectContext";
+
+// 프롬프트에 코드를 포함할 최대 청크 수 (정의/검색 결과, 관련 청크)
+const MAX_ROOT_CHUNKS = 3;
+const MAX_RELATED_CHUNKS = 6;
+const MAX_SEARCH_CHUNKS = 8;
+// 코드 없이 위치만 나열할 최대 관련 청크 수
+const MAX_LISTED_CHUNKS = 30;
+// 개요에 표시할 최대 심볼 수
+const MAX_OUTLINE_ENTRIES = 200;
+// 영향 분석 시 피의존성 탐색 깊이
+const IMPACT_DEPTH = 3;
+
+// 프롬프트 인자 (서버가 선언된 인자와 맞는지 확인하지만 빈 값일 수 있으므로 build에서 다시 확인)
+export type ExplainSymbolArgs = {
+  symbol?: string;
+};
+
+export type FindImplementationArgs = {
+  feature?: string;
+};
+
+export type ReviewImpactArgs = {
+  symbol?: string;
+  change?: string;
+};
+
+export type OnboardDirectoryArgs = {
+  directory?: string;
+};
+
+// 청크 위치 한 줄 표시 (리소스 URI 포함)
+const formatChunkLine = (chunk: CodeChunk, note?: string) =>
+  `- ${chunk.symbol} (${chunk.type}) ${chunk.path}:${chunk.lineStart}-${
+    chunk.lineEnd
+  }${note ? ` ${note}` : ""} <${toChunkUri(chunk)}>`;
+
+// 관련 청크 목록 (코드를 포함한 청크 뒤에 위치만 나열, 초과분은 개수만 표시)
+const formatRelatedList = (related: RelatedChunk[]) => {
+  if (related.length === 0) {
+    return "- 없음";
+  }
+  const lines = related
+    .slice(0, MAX_LISTED_CHUNKS)
+    .map((item) =>
+      formatChunkLine(item.chunk, `[depth ${item.depth}] ← ${item.via}`)
+    );
+  if (related.length > MAX_LISTED_CHUNKS) {
+    lines.push(`- 외 ${related.length - MAX_LISTED_CHUNKS}개 생략`);
+  }
+  return lines.join("\n");
+};
+
+// 개요 트리 (항목이 많으면 앞부분만 표시)
+const formatOutline = (entries: ChunkOutlineEntry[]) => {
+  if (entries.length === 0) {
+    return "(분석된 심볼 없음)";
+  }
+  const tree = buildOutlineTree(entries.slice(0, MAX_OUTLINE_ENTRIES));
+  return entries.length > MAX_OUTLINE_ENTRIES
+    ? `${tree}\n... 외 ${entries.length - MAX_OUTLINE_ENTRIES}개 심볼 생략`
+    : tree;
+};
+
+// 파일별 개요 섹션
+const getOutlineSections = async (projectId: string, paths: string[]) => {
+  const repository = CodeChunkRepository.getInstance();
+  const sections: string[] = [];
+  for (const filePath of Array.from(new Set(paths))) {
+    const entries = await repository.getChunkOutline(projectId, filePath);
+    sections.push(`## 파일 개요: ${filePath}\n${formatOutline(entries)}`);
+  }
+  return sections;
+};
+
+const textMessage = (text: string): PromptMessage => ({
+  role: "user",
+  content: { type: "text", text },
+});
+
+// 청크를 리소스로 포함한 메시지 (chunk:// URI로 다시 읽을 수 있음)
+const chunkMessage = (chunk: CodeChunk): PromptMessage => ({
+  role: "user",
+  content: {
+    type: "resource",
+    resource: {
+      uri: toChunkUri(chunk),
+      mimeType: "text/plain",
+      text: formatChunkResource(chunk),
+    },
+  },
+});
+
+// 여러 그룹의 청크를 중복 없이 순서대로 모음
+const uniqueChunks = (...groups: CodeChunk[][]) => {
+  const seen = new Set<string>();
+  return groups.flat().filter((chunk) => {
+    if (seen.has(chunk.id)) {
+      return false;
+    }
+    seen.add(chunk.id);
+    return true;
+  });
+};
+
+// 필수 문자열 인자 확인
+const requireArg = (value: string | undefined, name: string) => {
+  if (!value || typeof value !== "string" || !value.trim()) {
+    throw new Error(`필수 인자가 누락되었습니다: ${name}`);
+  }
+  return value.trim();
+};
+
+// 심볼 설명 프롬프트
+const explainSymbol: Prompt<ExplainSymbolArgs> = {
+  name: "explain_symbol",
+  description:
+    "심볼의 정의, 직접 의존성/피의존성 코드와 파일 개요를 포함해 심볼의 역할과 동작을 설명하도록 요청합니다",
+  arguments: [
+    {
+      name: "symbol",
+      description:
+        "설명할 심볼 (이름, 한정 심볼 경로 예: ProjectService.analyzeProject, 또는 청크 ID)",
+      required: true,
+    },
+  ],
+  async build(args) {
+    const symbol = requireArg(args?.symbol, "symbol");
+    const projectId = getProjectId();
+    const graphService = DependencyGraphService.getInstance();
+
+    const { roots, related: dependencies } = await graphService.traverse(
+      projectId,
+      symbol,
+      "dependencies"
+    );
+    const { related: dependents } = await graphService.traverse(
+      projectId,
+      symbol,
+      "dependents"
+    );
+    const definitions = roots.slice(0, MAX_ROOT_CHUNKS);
+
+    const text = [
+      `다음 코드베이스 컨텍스트를 바탕으로 \`${symbol}\`이(가) 무엇을 하는지 설명해 주세요.`,
+      "- 역할, 입력과 출력, 주요 동작 흐름과 부수 효과를 설명하세요.",
+      "- 의존하는 심볼과 이 심볼을 사용하는 곳이 어떻게 연결되는지 설명하세요.",
+      "- 근거는 path:line 형식으로 인용하고, 제공된 컨텍스트로 확인할 수 없는 내용은 추측임을 밝혀 주세요.",
+      "",
+      `## 정의 (${roots.length}개)`,
+      ...definitions.map((chunk) => formatChunkLine(chunk)),
+      ...(roots.length > definitions.length
+        ? [`- 외 ${roots.length - definitions.length}개 생략`]
+        : []),
+      "",
+      "## 직접 의존성",
+      formatRelatedList(dependencies),
+      "",
+      "## 직접 피의존성",
+      formatRelatedList(dependents),
+      "",
+      ...(await getOutlineSections(
+        projectId,
+        definitions.map((chunk) => chunk.path)
+      )),
+    ].join("\n");
+
+    return {
+      description: `${symbol} 설명`,
+      messages: [
+        textMessage(text),
+        ...uniqueChunks(
+          definitions,
+          dependencies.slice(0, MAX_RELATED_CHUNKS).map((item) => item.chunk),
+          dependents.slice(0, MAX_RELATED_CHUNKS).map((item) => item.chunk)
+        ).map(chunkMessage),
+      ],
+    };
+  },
+};
+
+// 구현 위치 찾기 프롬프트
+const findImplementation: Prompt<FindImplementationArgs> = {
+  name: "find_implementation",
+  description:
+    "기능 설명으로 코드를 검색해 후보 청크와 파일 개요를 포함하고, 기능이 구현된 위치와 흐름을 찾도록 요청합니다",
+  arguments: [
+    {
+      name: "feature",
+      description: "찾을 기능이나 동작에 대한 설명 (예: 변경된 파일만 다시 분석하는 로직)",
+      required: true,
+    },
+  ],
+  async build(args) {
+    const feature = requireArg(args?.feature, "feature");
+    const projectId = getProjectId();
+    const repository = CodeChunkRepository.getInstance();
+    const project = await repository.getProject(projectId);
+    if (!project) {
+      throw new Error(`프로젝트를 찾을 수 없습니다: ${projectId}`);
+    }
+
+    const embeddingService = new EmbeddingService();
+    embeddingService.assertCompatibleWithProject(project);
+    const queryEmbedding = await embeddingService.generateEmbedding(feature);
+    const results = await repository.searchCodeChunksHybrid(
+      projectId,
+      feature,
+      queryEmbedding,
+      MAX_SEARCH_CHUNKS,
+      0.3
+    );
+
+    const text = [
+      `"${feature}" 기능이 이 코드베이스의 어디에 구현되어 있는지 찾아 주세요.`,
+      "- 아래 검색 후보 중 실제 구현을 골라 path:line 형식으로 인용하세요.",
+      "- 진입점부터 핵심 로직까지의 호출 흐름을 순서대로 설명하세요.",
+      "- 후보에 구현이 없으면 그렇게 밝히고, search_code_chunks나 get_dependencies 도구로 더 찾아볼 검색어나 심볼을 제안하세요.",
+      "",
+      `## 검색 후보 (관련도 순, ${results.length}개)`,
+      results.length > 0
+        ? results
+            .map((chunk) =>
+              formatChunkLine(
+                chunk,
+                chunk.matchedLines
+                  ? `(일치한 줄 ${chunk.matchedLines.lineStart}-${chunk.matchedLines.lineEnd})`
+                  : undefined
+              )
+            )
+            .join("\n")
+        : "- 없음",
+      "",
+      ...(await getOutlineSections(
+        projectId,
+        results.slice(0, MAX_ROOT_CHUNKS).map((chunk) => chunk.path)
+      )),
+    ].join("\n");
+
+    return {
+      description: `${feature} 구현 위치 찾기`,
+      messages: [textMessage(text), ...results.map(chunkMessage)],
+    };
+  },
+};
+
+// 변경 영향 검토 프롬프트
+const reviewChangeImpact: Prompt<ReviewImpactArgs> = {
+  name: "review_change_impact",
+  description:
+    "심볼의 정의와 직접/간접 피의존성, 직접 의존성을 포함해 심볼을 변경했을 때의 영향 범위를 검토하도록 요청합니다",
+  arguments: [
+    {
+      name: "symbol",
+      description: "변경할 심볼 (이름, 한정 심볼 경로 또는 청크 ID)",
+      required: true,
+    },
+    {
+      name: "change",
+      description: "계획 중인 변경 내용 (예: 반환 타입을 Promise로 변경)",
+      required: false,
+    },
+  ],
+  async build(args) {
+    const symbol = requireArg(args?.symbol, "symbol");
+    const change = args?.change?.trim();
+    const projectId = getProjectId();
+    const graphService = DependencyGraphService.getInstance();
+
+    const { roots, related: dependents } = await graphService.traverse(
+      projectId,
+      symbol,
+      "dependents",
+      { transitive: true, depth: IMPACT_DEPTH }
+    );
+    const { related: dependencies } = await graphService.traverse(
+      projectId,
+      symbol,
+      "dependencies"
+    );
+    const definitions = roots.slice(0, MAX_ROOT_CHUNKS);
+    const directDependents = dependents.filter((item) => item.depth === 1);
+
+    const text = [
+      `\`${symbol}\`을(를) 변경했을 때의 영향 범위를 검토해 주세요.`,
+      ...(change ? [`계획 중인 변경: ${change}`] : []),
+      "- 함께 수정해야 하는 호출부와 깨질 수 있는 동작을 path:line 형식으로 나열하세요.",
+      "- 간접 피의존성 중 동작이 달라질 수 있는 곳과 그 이유를 설명하세요.",
+      "- 위험도(높음/중간/낮음)와 확인해야 할 테스트나 시나리오를 제안하세요.",
+      "- 직접 피의존성은 코드가 포함되어 있고, 간접 피의존성은 위치만 제공됩니다.",
+      "",
+      `## 정의 (${roots.length}개)`,
+      ...definitions.map((chunk) => formatChunkLine(chunk)),
+      "",
+      `## 피의존성 (최대 깊이 ${IMPACT_DEPTH}, ${dependents.length}개)`,
+      formatRelatedList(dependents),
+      "",
+      "## 직접 의존성",
+      formatRelatedList(dependencies),
+    ].join("\n");
+
+    return {
+      description: `${symbol} 변경 영향 검토`,
+      messages: [
+        textMessage(text),
+        ...uniqueChunks(
+          definitions,
+          directDependents
+            .slice(0, MAX_RELATED_CHUNKS)
+            .map((item) => item.chunk)
+        ).map(chunkMessage),
+      ],
+    };
+  },
+};
+
+// 디렉토리 온보딩 프롬프트
+const onboardDirectory: Prompt<OnboardDirectoryArgs> = {
+  name: "onboard_directory",
+  description:
+    "디렉토리의 심볼 개요와 가장 많이 사용되는 핵심 심볼의 코드를 포함해 디렉토리 구조와 읽는 순서를 안내하도록 요청합니다",
+  arguments: [
+    {
+      name: "directory",
+      description: "프로젝트 기준 디렉토리 경로 (예: src/services)",
+      required: true,
+    },
+  ],
+  async build(args) {
+    const directory = requireArg(args?.directory, "directory");
+    const projectId = getProjectId();
+    const repository = CodeChunkRepository.getInstance();
+
+    const entries = await repository.getChunkOutline(projectId, directory);
+    if (entries.length === 0) {
+      throw new Error(
+        `${directory}에서 심볼을 찾을 수 없습니다 (지원하지 않는 파일이거나 아직 분석되지 않았습니다)`
+      );
+    }
+
+    // 피의존성이 많은 심볼을 핵심 심볼로 선택
+    const keyEntries = [...entries]
+      .sort((a, b) => b.dependentCount - a.dependentCount)
+      .slice(0, MAX_RELATED_CHUNKS);
+    const keyChunks: CodeChunk[] = [];
+    for (const entry of keyEntries) {
+      keyChunks.push(
+        ...(await repository.findCodeChunksBySymbol(projectId, entry.id))
+      );
+    }
+    const files = Array.from(new Set(entries.map((entry) => entry.path)));
+
+    const text = [
+      `\`${directory}\` 디렉토리를 처음 보는 개발자를 위해 온보딩 안내를 작성해 주세요.`,
+      "- 디렉토리의 목적과 각 파일의 역할을 요약하세요.",
+      "- 핵심 추상화(클래스, 타입, 주요 함수)와 이들 사이의 데이터 흐름을 설명하세요.",
+      "- 처음 읽을 파일과 심볼의 순서를 path:line 인용과 함께 추천하세요.",
+      "",
+      `## 파일 (${files.length}개)`,
+      ...files.map((file) => `- ${file}`),
+      "",
+      "## 핵심 심볼 (피의존성 수 기준)",
+      ...keyEntries.map(
+        (entry) =>
+          `- ${entry.symbol} (${entry.type}) ${entry.path}:${entry.lineStart}-${entry.lineEnd} dependents:${entry.dependentCount}`
+      ),
+      "",
+      `## 심볼 개요: ${directory}`,
+      formatOutline(entries),
+    ].join("\n");
+
+    return {
+      description: `${directory} 온보딩`,
+      messages: [textMessage(text), ...keyChunks.map(chunkMessage)],
+    };
+  },
+};
+
+export const codebasePrompts = [
+  explainSymbol,
+  findImplementation,
+  reviewChangeImpact,
+  onboardDirectory,
+];
@@ -0,0 +1,216 @@
+import { randomUUID } from "crypto";
+import { Hono } from "hono";
+import { serve, type ServerType } from "@hono/node-server";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { CodeChunkRepository } from "../services/codeChunkRepository";
+import { createMcpServer, SERVER_CONFIG } from "./mcpServer";
+import { WebSSEServerTransport } from "./sseTransport";
+
+export type HttpServerOptions = {
+  host: string;
+  port: number;
+  // 프로젝트를 지정하지 않은 세션의 클라이언트 루트가 등록되지 않은 Git 저장소면 프로젝트로 등록
+  autoCreateProjects?: boolean;
+};
+
+// 실행 중인 HTTP 서버
+export type HttpServerHandle = {
+  httpServer: ServerType;
+  // 열린 세션을 모두 닫은 뒤 서버를 종료
+  close(): Promise<void>;
+};
+
+// 클라이언트 세션 (세션마다 MCP 서버 인스턴스와 프로젝트를 가짐)
+type HttpSession = {
+  server: Server;
+  transport: WebStandardStreamableHTTPServerTransport | WebSSEServerTransport;
+  projectId?: string;
+};
+
+// 레거시 SSE 클라이언트가 메시지를 POST할 경로
+const SSE_MESSAGE_ENDPOINT = "/messages";
+
+// JSON-RPC 오류 응답 본문
+const jsonRpcError = (code: number, message: string) => ({
+  jsonrpc: "2.0",
+  error: { code, message },
+  id: null,
+});
+
+/**
+ * Streamable HTTP(`/mcp`)와 레거시 SSE(`/sse`, `/messages`) 트랜스포트를 제공하는 HTTP 서버를 시작합니다.
+ * 세션마다 `projectId` 쿼리 파라미터 또는 `X-Project-Id` 헤더로 프로젝트를 지정할 수 있으며,
+ * 지정하지 않으면 PROJECT_ID 환경 변수, 클라이언트 루트 순으로 프로젝트를 찾습니다.
+ */
+export function startHttpServer(
+  options: HttpServerOptions
+): HttpServerHandle {
+  const app = new Hono();
+  const sessions = new Map<string, HttpSession>();
+  const repository = CodeChunkRepository.getInstance();
+
+  // 요청에서 세션 프로젝트 ID 확인 및 존재 여부 검증
+  const resolveProjectId = async (
+    projectId: string | undefined
+  ): Promise<string | undefined> => {
+    const resolved = projectId || process.env.PROJECT_ID;
+    if (resolved && !(await repository.getProject(resolved))) {
+      throw new Error(`프로젝트를 찾을 수 없습니다: ${resolved}`);
+    }
+    return resolved;
+  };
+
+  // 헬스 체크
+  app.get("/health", (c) => {
+    const streamableSessions = Array.from(sessions.values()).filter(
+      (session) =>
+        session.transport instanceof WebStandardStreamableHTTPServerTransport
+    ).length;
+
+    return c.json({
+      status: "ok",
+      name: SERVER_CONFIG.name,
+      version: SERVER_CONFIG.version,
+      sessions: {
+        streamableHttp: streamableSessions,
+        sse: sessions.size - streamableSessions,
+      },
+    });
+  });
+
+  // Streamable HTTP 트랜스포트 (POST: 메시지, GET: 서버 알림 스트림, DELETE: 세션 종료)
+  app.all("/mcp", async (c) => {
+    const sessionId = c.req.header("mcp-session-id");
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (
+        !session ||
+        !(session.transport instanceof WebStandardStreamableHTTPServerTransport)
+      ) {
+        return c.json(jsonRpcError(-32001, "세션을 찾을 수 없습니다"), 404);
+      }
+      return session.transport.handleRequest(c.req.raw);
+    }
+
+    // 세션 ID가 없으면 초기화 요청만 허용
+    const body =
+      c.req.method === "POST" ? await c.req.json().catch(() => null) : null;
+    if (!isInitializeRequest(body)) {
+      return c.json(
+        jsonRpcError(
+          -32000,
+          "초기화 요청이 아니면 mcp-session-id 헤더가 필요합니다"
+        ),
+        400
+      );
+    }
+
+    let projectId: string | undefined;
+    try {
+      projectId = await resolveProjectId(
+        c.req.query("projectId") || c.req.header("x-project-id")
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return c.json(jsonRpcError(-32000, message), 404);
+    }
+
+    const server = createMcpServer(projectId, {
+      autoCreateProjects: options.autoCreateProjects,
+    });
+    const transport = new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        sessions.set(newSessionId, { server, transport, projectId });
+        console.error(
+          `Streamable HTTP 세션 시작: ${newSessionId} (프로젝트: ${
+            projectId || "미지정"
+          })`
+        );
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+        console.error(`Streamable HTTP 세션 종료: ${transport.sessionId}`);
+      }
+    };
+
+    await server.connect(transport);
+    return transport.handleRequest(c.req.raw, { parsedBody: body });
+  });
+
+  // 레거시 SSE 트랜스포트: 스트림 연결
+  app.get("/sse", async (c) => {
+    let projectId: string | undefined;
+    try {
+      projectId = await resolveProjectId(
+        c.req.query("projectId") || c.req.header("x-project-id")
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return c.text(message, 404);
+    }
+
+    const server = createMcpServer(projectId, {
+      autoCreateProjects: options.autoCreateProjects,
+    });
+    const transport = new WebSSEServerTransport(SSE_MESSAGE_ENDPOINT);
+    transport.onclose = () => {
+      sessions.delete(transport.sessionId);
+      console.error(`SSE 세션 종료: ${transport.sessionId}`);
+    };
+
+    sessions.set(transport.sessionId, { server, transport, projectId });
+    await server.connect(transport);
+    console.error(
+      `SSE 세션 시작: ${transport.sessionId} (프로젝트: ${
+        projectId || "미지정"
+      })`
+    );
+    return transport.createResponse();
+  });
+
+  // 레거시 SSE 트랜스포트: 클라이언트 메시지 수신
+  app.post(SSE_MESSAGE_ENDPOINT, async (c) => {
+    const session = sessions.get(c.req.query("sessionId") || "");
+    if (!session || !(session.transport instanceof WebSSEServerTransport)) {
+      return c.text("세션을 찾을 수 없습니다", 404);
+    }
+
+    try {
+      await session.transport.handlePostMessage(await c.req.json());
+      return c.text("Accepted", 202);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return c.text(`잘못된 메시지입니다: ${message}`, 400);
+    }
+  });
+
+  const httpServer = serve({
+    fetch: app.fetch,
+    hostname: options.host,
+    port: options.port,
+  });
+
+  // 열린 SSE/Streamable HTTP 스트림이 연결을 유지하면 httpServer.close()가 끝나지 않으므로 세션을 먼저 닫음
+  const close = async () => {
+    await Promise.all(
+      Array.from(sessions.values()).map((session) =>
+        session.server.close().catch((error) => {
+          console.error("MCP 세션 종료 중 오류 발생:", error);
+        })
+      )
+    );
+    sessions.clear();
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.close((error) => (error ? reject(error) : resolve()));
+    });
+  };
+
+  return { httpServer, close };
+}
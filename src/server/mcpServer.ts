@@ -0,0 +1,262 @@
+import { fileURLToPath } from "url";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { fileTools } from "../tools/files.js";
+import { codeTools } from "../tools/code.js";
+import { graphTools } from "../tools/graph.js";
+import { duplicateTools } from "../tools/duplicates.js";
+import { projectTools } from "../tools/projects.js";
+import { codebasePrompts } from "../prompts/codebase";
+import { BasePrompt } from "../types/prompt";
+import { ProjectService } from "../services/projectService";
+import { ProjectSession, runWithProjectSession } from "./projectContext";
+import {
+  listProjectResources,
+  listProjectResourceTemplates,
+  readProjectResource,
+} from "./resources";
+
+// 서버 설정
+export const SERVER_CONFIG = {
+  name: "mcp_codebase",
+  version: "1.0.0",
+};
+
+export type McpServerOptions = {
+  // 클라이언트 루트가 등록되지 않은 Git 저장소면 프로젝트로 등록하고 분석할지 여부
+  autoCreateProjects?: boolean;
+};
+
+// MCP에 노출될 도구 목록
+const mcpExposedTools = [
+  ...projectTools,
+  ...fileTools,
+  ...codeTools,
+  ...graphTools,
+  ...duplicateTools,
+];
+
+// MCP에 노출될 프롬프트 목록
+const mcpExposedPrompts = [...codebasePrompts];
+
+/**
+ * 클라이언트가 보낸 인자가 프롬프트가 선언한 인자와 맞는지 확인합니다.
+ * 값은 모두 문자열이어야 하고 필수 인자가 있어야 하며, 선언하지 않은 인자는 허용하지 않습니다.
+ */
+function assertPromptArgs(
+  prompt: BasePrompt,
+  args: Record<string, unknown>
+): asserts args is Record<string, string> {
+  const declared = new Set(prompt.arguments.map((argument) => argument.name));
+  for (const [name, value] of Object.entries(args)) {
+    if (!declared.has(name)) {
+      throw new Error(
+        `${prompt.name} 프롬프트에 없는 인자입니다: ${name} (사용 가능: ${
+          Array.from(declared).join(", ") || "없음"
+        })`
+      );
+    }
+    if (typeof value !== "string") {
+      throw new Error(`프롬프트 인자는 문자열이어야 합니다: ${name}`);
+    }
+  }
+
+  for (const argument of prompt.arguments) {
+    if (argument.required && !args[argument.name]) {
+      throw new Error(`필수 인자가 누락되었습니다: ${argument.name}`);
+    }
+  }
+}
+
+/**
+ * 새로 등록한 프로젝트를 백그라운드에서 분석합니다 (서버 시작과 클라이언트 응답을 막지 않음).
+ */
+export function analyzeProjectInBackground(projectId: string): void {
+  try {
+    ProjectService.getInstance().startAnalysis(projectId, true);
+  } catch (error) {
+    console.error(`프로젝트 분석을 시작하지 못했습니다: ${projectId}`, error);
+  }
+}
+
+// 클라이언트 루트(file:// URI)에서 프로젝트 감지 (첫 번째로 찾은 프로젝트)
+async function detectProjectFromRoots(
+  server: Server,
+  autoCreate: boolean
+): Promise<string | undefined> {
+  const { roots } = await server.listRoots();
+  for (const root of roots) {
+    if (!root.uri.startsWith("file://")) {
+      continue;
+    }
+
+    const detected = await ProjectService.getInstance().detectProject(
+      fileURLToPath(root.uri),
+      { autoCreate }
+    );
+    if (detected) {
+      console.error(
+        `클라이언트 루트에서 프로젝트를 감지했습니다: ${detected.project.name} (${detected.project.id})`
+      );
+      if (detected.created) {
+        analyzeProjectInBackground(detected.project.id);
+      }
+      return detected.project.id;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 도구, 리소스, 프롬프트 핸들러가 등록된 MCP 서버 인스턴스를 생성합니다.
+ * 서버 인스턴스는 하나의 트랜스포트에만 연결할 수 있으므로 HTTP 모드에서는 세션마다 생성합니다.
+ * 서버 인스턴스마다 프로젝트 선택 상태를 가지며, select_project 도구로 세션 안에서 바꿀 수 있습니다.
+ * 프로젝트가 지정되지 않았고 클라이언트가 roots를 지원하면 초기화 후 클라이언트 루트로 프로젝트를 감지합니다.
+ * @param projectId 처음 선택할 프로젝트 ID (생략 시 PROJECT_ID 환경 변수 사용)
+ */
+export function createMcpServer(
+  projectId?: string,
+  options: McpServerOptions = {}
+): Server {
+  const session: ProjectSession = { projectId };
+  const server = new Server(SERVER_CONFIG, {
+    capabilities: {
+      tools: {},
+      resources: {},
+      prompts: {},
+    },
+  });
+
+  // 클라이언트 루트 기반 프로젝트 감지 (도구 실행 전에 완료를 기다림)
+  let rootDetection: Promise<void> | null = null;
+  server.oninitialized = () => {
+    if (
+      session.projectId ||
+      process.env.PROJECT_ID ||
+      !server.getClientCapabilities()?.roots
+    ) {
+      return;
+    }
+
+    rootDetection = detectProjectFromRoots(
+      server,
+      options.autoCreateProjects === true
+    )
+      .then((detectedId) => {
+        if (detectedId) {
+          session.projectId = detectedId;
+        }
+      })
+      .catch((error) => {
+        console.error("클라이언트 루트로 프로젝트 감지 중 오류 발생:", error);
+      });
+  };
+
+  // 세션 프로젝트 컨텍스트에서 핸들러 실행 (클라이언트 루트 감지가 끝난 뒤)
+  const runInSession = async <T>(fn: () => Promise<T>): Promise<T> => {
+    if (rootDetection) {
+      await rootDetection;
+    }
+    return runWithProjectSession(session, fn);
+  };
+
+  // Define available tools (MCP에 노출될 도구만 포함)
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: mcpExposedTools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+      })),
+    };
+  });
+
+  // Handle tool execution (MCP 노출 도구만 대상으로 함)
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: clientArgs = {} } = request.params;
+
+    // 이름으로 MCP 노출 도구 찾기
+    const tool = mcpExposedTools.find((t) => t.name === name);
+
+    if (!tool) {
+      // 이 경우는 MCP 클라이언트가 ListTools에 없는 도구를 호출하려고 시도한 경우
+      throw new Error(`MCP에서 사용할 수 없는 도구입니다: ${name}`);
+    }
+
+    try {
+      // 디버깅을 위한 로깅 추가
+      console.error(
+        `MCP 도구 실행: ${name}`,
+        JSON.stringify(clientArgs, null, 2)
+      );
+
+      // 클라이언트 인자 처리 (서버에 설정된 프로젝트 ID를 사용)
+      // projectId가 있더라도 명시적으로 제거 (도구는 프로젝트 컨텍스트에서 가져옴)
+      const { projectId: _ignored, ...cleanedArgs } = clientArgs;
+
+      // 도구 실행 시 필수 파라미터 확인
+      if (name === "search_code_chunks" && !cleanedArgs.query) {
+        throw new Error("검색어(query)가 제공되지 않았습니다");
+      }
+
+      // 도구 실행 (타입 캐스팅)
+      return await runInSession(() => tool.execute(cleanedArgs as any));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new Error(`도구 실행 중 오류 발생: ${errorMessage}`);
+    }
+  });
+
+  // 프로젝트 파일과 분석된 청크 리소스
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) =>
+    runInSession(() => listProjectResources(request.params?.cursor))
+  );
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () =>
+    listProjectResourceTemplates()
+  );
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+    runInSession(() => readProjectResource(request.params.uri))
+  );
+
+  // 코드베이스 컨텍스트를 미리 조회해 포함하는 프롬프트
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: mcpExposedPrompts.map((prompt) => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments,
+      })),
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: promptArgs = {} } = request.params;
+    const prompt = mcpExposedPrompts.find((p) => p.name === name);
+    if (!prompt) {
+      throw new Error(`MCP에서 사용할 수 없는 프롬프트입니다: ${name}`);
+    }
+
+    console.error(`MCP 프롬프트 생성: ${name}`, JSON.stringify(promptArgs));
+    try {
+      assertPromptArgs(prompt, promptArgs);
+      return await runInSession(() => prompt.build(promptArgs));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new Error(`프롬프트 생성 중 오류 발생: ${errorMessage}`);
+    }
+  });
+
+  return server;
+}
@@ -0,0 +1,60 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// 클라이언트 세션의 프로젝트 선택 상태 (select_project 도구로 세션 안에서 변경 가능)
+export type ProjectSession = {
+  projectId?: string;
+};
+
+// 도구 실행 단위의 프로젝트 컨텍스트 (HTTP 모드에서는 세션마다 다른 프로젝트를 사용)
+type ProjectContext = {
+  session: ProjectSession;
+};
+
+const projectContextStorage = new AsyncLocalStorage<ProjectContext>();
+
+/**
+ * 주어진 세션을 컨텍스트로 설정한 채 함수를 실행합니다.
+ * 세션에 프로젝트가 없으면 PROJECT_ID 환경 변수로 대체됩니다.
+ */
+export function runWithProjectSession<T>(
+  session: ProjectSession,
+  fn: () => T
+): T {
+  return projectContextStorage.run({ session }, fn);
+}
+
+/**
+ * 현재 컨텍스트에서 선택된 프로젝트 ID를 반환합니다 (없으면 undefined).
+ * 세션에서 선택한 프로젝트가 없으면 PROJECT_ID 환경 변수를 사용합니다.
+ */
+export function getSelectedProjectId(): string | undefined {
+  return (
+    projectContextStorage.getStore()?.session.projectId ||
+    process.env.PROJECT_ID
+  );
+}
+
+/**
+ * 현재 컨텍스트의 프로젝트 ID를 반환합니다.
+ * 선택된 프로젝트가 없으면 오류를 던집니다.
+ */
+export function getProjectId(): string {
+  const projectId = getSelectedProjectId();
+  if (!projectId) {
+    throw new Error(
+      "선택된 프로젝트가 없습니다. list_projects로 프로젝트를 확인한 뒤 select_project로 선택하거나 PROJECT_ID 환경 변수를 설정하세요"
+    );
+  }
+  return projectId;
+}
+
+/**
+ * 현재 세션의 프로젝트를 변경합니다. 이후 같은 세션의 도구 호출은 이 프로젝트를 사용합니다.
+ */
+export function setSessionProjectId(projectId: string): void {
+  const context = projectContextStorage.getStore();
+  if (!context) {
+    throw new Error("프로젝트를 선택할 수 있는 세션 컨텍스트가 없습니다");
+  }
+  context.session.projectId = projectId;
+}
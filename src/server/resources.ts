@@ -0,0 +1,255 @@
+import * as path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import {
+  ListResourcesResult,
+  ListResourceTemplatesResult,
+  ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { CodeChunkRepository } from "../services/codeChunkRepository";
+import { CodeChunk } from "../services/codeChunkingService";
+import { FileSystemService } from "../services/fileSystem";
+import { GitService } from "../services/gitService";
+import { ProjectService } from "../services/projectService";
+import { getSelectedProjectId } from "./projectContext";
+
+// 리소스 목록 한 페이지의 최대 항목 수
+const RESOURCE_PAGE_SIZE = 500;
+
+// 리소스 템플릿 (클라이언트가 심볼 이름으로 청크를 조회할 때 사용)
+const RESOURCE_TEMPLATES: ListResourceTemplatesResult["resourceTemplates"] = [
+  {
+    uriTemplate: "symbol://{project}/{symbol}",
+    name: "심볼 조회",
+    description:
+      "프로젝트(ID 또는 이름)에서 이름이나 한정 심볼 경로(예: ProjectService.analyzeProject)가 일치하는 모든 청크의 코드와 메타데이터",
+    mimeType: "text/plain",
+  },
+  {
+    uriTemplate: "chunk://{project}/{path}#{symbol}",
+    name: "청크 조회",
+    description: "프로젝트 파일 경로와 한정 심볼 경로로 지정한 청크의 코드와 메타데이터",
+    mimeType: "text/plain",
+  },
+];
+
+// 청크 리소스 URI (chunk://<project>/<path>#<symbol>)
+export const toChunkUri = (
+  chunk: Pick<CodeChunk, "projectId" | "path" | "symbol">
+) =>
+  `chunk://${encodeURIComponent(chunk.projectId)}/${chunk.path
+    .split("/")
+    .map(encodeURIComponent)
+    .join("/")}#${encodeURIComponent(chunk.symbol)}`;
+
+// 청크 리소스 내용 (위치와 관계 메타데이터, 코드)
+export const formatChunkResource = (chunk: CodeChunk) =>
+  [
+    `파일: ${chunk.path}`,
+    `심볼: ${chunk.symbol} (${chunk.type})`,
+    `줄: ${chunk.lineStart}-${chunk.lineEnd}`,
+    ...(chunk.parentName ? [`상위 심볼: ${chunk.parentName}`] : []),
+    ...(chunk.signature ? [`시그니처: ${chunk.signature}`] : []),
+    `의존성: ${chunk.dependencies.join(", ") || "없음"}`,
+    `피의존성: ${chunk.dependents.join(", ") || "없음"}`,
+    `청크 ID: ${chunk.id}`,
+    "",
+    ...(chunk.docComment ? [chunk.docComment] : []),
+    chunk.code,
+  ].join("\n");
+
+// URI 경로를 디코딩해 앞의 /를 제거
+const decodeUriPath = (pathname: string) =>
+  pathname.replace(/^\/+/, "").split("/").map(decodeURIComponent).join("/");
+
+// 리소스 목록 cursor (파일 목록의 다음 위치 또는 마지막으로 반환한 청크 ID)
+type ResourceCursor =
+  | { kind: "file"; offset: number }
+  | { kind: "chunk"; afterId?: string };
+
+const parseResourceCursor = (cursor?: string): ResourceCursor => {
+  if (!cursor) {
+    return { kind: "file", offset: 0 };
+  }
+  const separator = cursor.indexOf(":");
+  const kind = cursor.slice(0, separator);
+  const value = cursor.slice(separator + 1);
+  const offset = Number(value);
+  if (kind === "file" && Number.isInteger(offset) && offset >= 0) {
+    return { kind, offset };
+  }
+  if (kind === "chunk") {
+    return { kind, afterId: value || undefined };
+  }
+  throw new Error(`유효하지 않은 cursor입니다: ${cursor}`);
+};
+
+/**
+ * 선택된 프로젝트의 파일(file://)과 분석된 청크(chunk://) 리소스 목록을 반환합니다.
+ * 파일은 Git이 추적하는 파일(Git 저장소가 아니면 분석된 파일)이며, 파일 다음에 청크가 이어집니다.
+ * 한 페이지에 필요한 만큼만 조회하고 cursor로 다음 페이지를 조회합니다.
+ * 선택된 프로젝트가 없으면 빈 목록을 반환합니다.
+ */
+export async function listProjectResources(
+  cursor?: string
+): Promise<ListResourcesResult> {
+  const projectId = getSelectedProjectId();
+  const project = projectId
+    ? await ProjectService.getInstance().getProject(projectId)
+    : null;
+  if (!project) {
+    return { resources: [] };
+  }
+
+  const repository = CodeChunkRepository.getInstance();
+  const position = parseResourceCursor(cursor);
+  const resources: ListResourcesResult["resources"] = [];
+
+  if (position.kind === "file") {
+    // 다음 페이지가 있는지 확인하기 위해 하나 더 조회
+    const tracked = GitService.getInstance().listTrackedFiles(project.path);
+    const files = tracked
+      ? tracked.slice(
+          position.offset,
+          position.offset + RESOURCE_PAGE_SIZE + 1
+        )
+      : await repository.getChunkPaths(
+          project.id,
+          position.offset,
+          RESOURCE_PAGE_SIZE + 1
+        );
+    resources.push(
+      ...files.slice(0, RESOURCE_PAGE_SIZE).map((file) => ({
+        uri: pathToFileURL(path.join(project.path, file)).href,
+        name: file,
+        mimeType: "text/plain",
+      }))
+    );
+    if (files.length > RESOURCE_PAGE_SIZE) {
+      return {
+        resources,
+        nextCursor: `file:${position.offset + RESOURCE_PAGE_SIZE}`,
+      };
+    }
+  }
+
+  // 파일 목록이 끝난 페이지의 남은 자리부터 청크로 채움
+  const remaining = RESOURCE_PAGE_SIZE - resources.length;
+  const entries = await repository.getChunkOutlinePage(
+    project.id,
+    remaining + 1,
+    position.kind === "chunk" ? position.afterId : undefined
+  );
+  const page = entries.slice(0, remaining);
+  resources.push(
+    ...page.map((entry) => ({
+      uri: toChunkUri({ ...entry, projectId: project.id }),
+      name: `${entry.symbol} (${entry.type})`,
+      description: `${entry.path}:${entry.lineStart}-${entry.lineEnd}`,
+      mimeType: "text/plain",
+    }))
+  );
+
+  return {
+    resources,
+    ...(entries.length > remaining && {
+      nextCursor: `chunk:${page.length > 0 ? page[page.length - 1].id : ""}`,
+    }),
+  };
+}
+
+/**
+ * 리소스 템플릿 목록을 반환합니다.
+ */
+export function listProjectResourceTemplates(): ListResourceTemplatesResult {
+  return { resourceTemplates: RESOURCE_TEMPLATES };
+}
+
+/**
+ * 리소스 URI의 내용을 읽습니다.
+ * - file://: 등록된 프로젝트 안의 파일 내용
+ * - chunk://<project>/<path>#<symbol>: 청크 코드와 메타데이터
+ * - symbol://<project>/<symbol>: 이름이나 한정 심볼 경로가 일치하는 모든 청크
+ */
+export async function readProjectResource(
+  uri: string
+): Promise<ReadResourceResult> {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new Error(`유효하지 않은 리소스 URI입니다: ${uri}`);
+  }
+
+  switch (url.protocol) {
+    case "file:":
+      return readFileResource(uri, fileURLToPath(url));
+    case "chunk:":
+    case "symbol:":
+      return readChunkResource(url);
+    default:
+      throw new Error(`지원하지 않는 리소스 URI입니다: ${uri}`);
+  }
+}
+
+// 파일 리소스 읽기 (등록된 프로젝트 밖의 파일은 허용하지 않음)
+async function readFileResource(
+  uri: string,
+  filePath: string
+): Promise<ReadResourceResult> {
+  const project = await ProjectService.getInstance().findProjectByPath(
+    filePath
+  );
+  if (!project) {
+    throw new Error(`등록된 프로젝트 밖의 파일입니다: ${filePath}`);
+  }
+
+  const result = await new FileSystemService(project.path).readFile(
+    path.relative(project.path, filePath)
+  );
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return {
+    contents: [{ uri, mimeType: "text/plain", text: result.data as string }],
+  };
+}
+
+// 청크/심볼 리소스 읽기
+async function readChunkResource(url: URL): Promise<ReadResourceResult> {
+  const project = await ProjectService.getInstance().resolveProject(
+    decodeURIComponent(url.hostname)
+  );
+
+  let symbol: string;
+  let filePath: string | null = null;
+  if (url.protocol === "chunk:") {
+    filePath = decodeUriPath(url.pathname);
+    symbol = decodeURIComponent(url.hash.replace(/^#/, ""));
+  } else {
+    symbol = decodeUriPath(url.pathname);
+  }
+  if (!symbol) {
+    throw new Error(`리소스 URI에 심볼이 없습니다: ${url.href}`);
+  }
+
+  const chunks = (
+    await CodeChunkRepository.getInstance().findCodeChunksBySymbol(
+      project.id,
+      symbol
+    )
+  ).filter(
+    (chunk) =>
+      filePath === null || (chunk.path === filePath && chunk.symbol === symbol)
+  );
+  if (chunks.length === 0) {
+    throw new Error(`리소스를 찾을 수 없습니다: ${url.href}`);
+  }
+
+  return {
+    contents: chunks.map((chunk) => ({
+      uri: toChunkUri(chunk),
+      mimeType: "text/plain",
+      text: formatChunkResource(chunk),
+    })),
+  };
+}
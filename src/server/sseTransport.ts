@@ -0,0 +1,105 @@
+import { randomUUID } from "crypto";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * 레거시 HTTP+SSE 트랜스포트 (MCP 2024-11-05 사양)
+ * GET 요청에 SSE 스트림을 열고 `endpoint` 이벤트로 메시지 전송 주소를 알린 뒤,
+ * 클라이언트가 해당 주소로 POST한 메시지를 서버에 전달하고 응답은 SSE `message` 이벤트로 보냅니다.
+ * Web 표준 Request/Response만 사용하므로 Node.js와 Bun 모두에서 동작합니다.
+ */
+export class WebSSEServerTransport implements Transport {
+  public readonly sessionId = randomUUID();
+  public onclose?: () => void;
+  public onerror?: (error: Error) => void;
+  public onmessage?: (message: JSONRPCMessage) => void;
+
+  private controller: ReadableStreamDefaultController<Uint8Array> | null =
+    null;
+  private encoder = new TextEncoder();
+  private closed = false;
+
+  /**
+   * @param messageEndpoint 클라이언트가 메시지를 POST할 경로 (예: /messages)
+   */
+  constructor(private messageEndpoint: string) {}
+
+  // SSE 스트림 응답 생성 (GET 요청 처리)
+  createResponse(): Response {
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.controller = controller;
+        this.writeEvent(
+          "endpoint",
+          `${this.messageEndpoint}?sessionId=${this.sessionId}`
+        );
+      },
+      cancel: () => {
+        this.handleClose();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  }
+
+  async start(): Promise<void> {
+    // 스트림은 createResponse에서 열리므로 별도 작업 없음
+  }
+
+  // 클라이언트가 POST한 메시지 처리
+  async handlePostMessage(body: unknown): Promise<void> {
+    if (this.closed) {
+      throw new Error("SSE 연결이 종료된 세션입니다");
+    }
+
+    let message: JSONRPCMessage;
+    try {
+      message = JSONRPCMessageSchema.parse(body);
+    } catch (error) {
+      const parseError =
+        error instanceof Error ? error : new Error(String(error));
+      this.onerror?.(parseError);
+      throw parseError;
+    }
+
+    this.onmessage?.(message);
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.controller || this.closed) {
+      throw new Error("SSE 연결이 열려 있지 않습니다");
+    }
+    this.writeEvent("message", JSON.stringify(message));
+  }
+
+  async close(): Promise<void> {
+    if (this.controller && !this.closed) {
+      this.controller.close();
+    }
+    this.handleClose();
+  }
+
+  private writeEvent(event: string, data: string) {
+    this.controller?.enqueue(
+      this.encoder.encode(`event: ${event}\ndata: ${data}\n\n`)
+    );
+  }
+
+  private handleClose() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.controller = null;
+    this.onclose?.();
+  }
+}
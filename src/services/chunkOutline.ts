@@ -0,0 +1,50 @@
+import { ChunkOutlineEntry } from "./codeChunkRepository";
+
+// 심볼 개요 표시 (get_file_outline 도구와 MCP 프롬프트 공용)
+
+// 개요 항목 한 줄 표시 (중첩 항목은 부모 심볼 경로를 생략)
+const formatOutlineEntry = (
+  entry: ChunkOutlineEntry,
+  parent: ChunkOutlineEntry | undefined,
+  level: number
+) => {
+  const label =
+    parent && entry.symbol.startsWith(`${parent.symbol}.`)
+      ? entry.symbol.slice(parent.symbol.length + 1)
+      : entry.symbol;
+  return `${"  ".repeat(level)}${entry.type} ${label} [${entry.lineStart}-${
+    entry.lineEnd
+  }] deps:${entry.dependencyCount} dependents:${entry.dependentCount}`;
+};
+
+/**
+ * 파일별로 묶고 줄 범위 포함 관계에 따라 들여쓴 개요 트리를 만듭니다.
+ */
+export const buildOutlineTree = (entries: ChunkOutlineEntry[]) => {
+  const lines: string[] = [];
+  let currentPath: string | null = null;
+  let stack: ChunkOutlineEntry[] = [];
+
+  for (const entry of entries) {
+    if (entry.path !== currentPath) {
+      currentPath = entry.path;
+      stack = [];
+      lines.push(entry.path);
+    }
+
+    // 현재 항목을 포함하지 않는 상위 항목 제거
+    while (
+      stack.length > 0 &&
+      stack[stack.length - 1].lineEnd < entry.lineEnd
+    ) {
+      stack.pop();
+    }
+
+    lines.push(
+      formatOutlineEntry(entry, stack[stack.length - 1], stack.length + 1)
+    );
+    stack.push(entry);
+  }
+
+  return lines.join("\n");
+};
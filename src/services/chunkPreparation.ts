@@ -0,0 +1,224 @@
+// 임베딩 입력 준비 헬퍼 (공백 정규화, 토큰 한도 맞춤, 하위 청크 분할)
+// 주석은 코드의 의도를 담고 있으므로 제거하지 않습니다.
+import { estimateTokens } from "./tokenEstimator";
+
+// 분할된 코드 조각 (줄 번호는 파일 기준)
+export type CodePart = {
+  code: string;
+  lineStart: number;
+  lineEnd: number;
+};
+
+// 시그니처로 볼 최대 줄 수 (본문 시작을 찾지 못하면 첫 줄만 사용)
+const MAX_SIGNATURE_LINES = 8;
+// 하위 청크 머리말이 차지할 수 있는 최대 토큰 비율
+const MAX_HEADER_RATIO = 0.25;
+// 이웃한 하위 청크가 겹치는 토큰 비율
+const PART_OVERLAP_RATIO = 0.15;
+// 하위 청크에서 머리말과 본문 사이의 생략 표시
+const ELISION_MARKER = "...";
+
+// 주석 또는 데코레이터 줄 (//, /*, *, #, @)
+const LEADING_LINE_PATTERN = /^\s*(\/\/|\/\*|\*|#|@)/;
+// Python 독스트링 시작
+const DOCSTRING_PATTERN = /^\s*[rRbBuU]?("""|''')/;
+
+/**
+ * 임베딩 입력용으로 코드의 공백을 정규화합니다.
+ * 줄 끝 공백과 공통 들여쓰기를 제거하고 연속된 빈 줄을 하나로 줄이며,
+ * 주석과 줄 구조는 그대로 유지합니다.
+ */
+export function normalizeCodeWhitespace(code: string): string {
+  const lines = code
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(/\s+$/, ""));
+
+  // 비어있지 않은 줄의 공통 들여쓰기
+  const indents = lines
+    .filter((line) => line)
+    .map((line) => line.match(/^[ \t]*/)![0]);
+  let commonIndent = indents[0] || "";
+  for (const indent of indents) {
+    while (!indent.startsWith(commonIndent)) {
+      commonIndent = commonIndent.slice(0, -1);
+    }
+  }
+
+  // 앞쪽 빈 줄과 연속된 빈 줄은 건너뜀
+  const normalized: string[] = [];
+  for (const line of lines) {
+    if (!line && !normalized[normalized.length - 1]) {
+      continue;
+    }
+    normalized.push(line.slice(commonIndent.length));
+  }
+  while (normalized.length > 0 && !normalized[normalized.length - 1]) {
+    normalized.pop();
+  }
+
+  return normalized.join("\n");
+}
+
+/**
+ * 청크 앞부분에서 머리말 구간을 찾습니다.
+ * 앞쪽 주석/데코레이터, 본문이 시작되는 줄({, :, =>로 끝나는 줄)까지의 시그니처,
+ * 시그니처 바로 뒤의 Python 독스트링 순서로 인식합니다.
+ * @returns 시그니처 시작/끝 줄과 머리말 전체 끝 줄 (끝은 미포함 인덱스)
+ */
+export function findChunkHeader(lines: string[]): {
+  signatureStart: number;
+  signatureEnd: number;
+  end: number;
+} {
+  let i = 0;
+  while (
+    i < lines.length &&
+    (!lines[i].trim() || LEADING_LINE_PATTERN.test(lines[i]))
+  ) {
+    i++;
+  }
+
+  const signatureStart = Math.min(i, Math.max(lines.length - 1, 0));
+  let signatureEnd = signatureStart + 1;
+  for (
+    let j = signatureStart;
+    j < Math.min(lines.length, signatureStart + MAX_SIGNATURE_LINES);
+    j++
+  ) {
+    if (/([{:]|=>)\s*$/.test(lines[j])) {
+      signatureEnd = j + 1;
+      break;
+    }
+  }
+
+  // 시그니처 뒤의 독스트링 (여는 따옴표와 닫는 따옴표가 같은 줄이면 한 줄 독스트링)
+  let end = signatureEnd;
+  const docstring = lines[end]?.match(DOCSTRING_PATTERN);
+  if (docstring) {
+    const quote = docstring[1];
+    const opening = lines[end];
+    const singleLine =
+      opening.indexOf(quote, opening.indexOf(quote) + 3) !== -1;
+    end++;
+    if (!singleLine) {
+      while (end < lines.length && !lines[end].includes(quote)) {
+        end++;
+      }
+      end = Math.min(end + 1, lines.length);
+    }
+  }
+
+  return { signatureStart, signatureEnd, end };
+}
+
+// 하위 청크마다 반복할 머리말 선택 (너무 길면 시그니처만, 그래도 길면 첫 줄만)
+function selectHeaderLines(lines: string[], maxTokens: number): string[] {
+  const { signatureStart, signatureEnd, end } = findChunkHeader(lines);
+  const limit = Math.floor(maxTokens * MAX_HEADER_RATIO);
+  const candidates = [
+    lines.slice(0, end),
+    lines.slice(signatureStart, signatureEnd),
+    lines.slice(signatureStart, signatureStart + 1),
+  ];
+
+  for (const candidate of candidates) {
+    if (estimateTokens(candidate.join("\n")) <= limit) {
+      return candidate;
+    }
+  }
+  return [];
+}
+
+/**
+ * 토큰 한도를 넘는 청크 코드를 서로 겹치는 조각으로 분할합니다.
+ * 첫 조각은 청크 처음부터 시작하고, 이후 조각은 앞쪽 주석과 시그니처(머리말)를
+ * 앞에 붙여 어떤 심볼의 일부인지 알 수 있게 합니다.
+ * @param code 청크 코드
+ * @param lineStart 청크 시작 줄 번호
+ * @param maxTokens 조각 하나의 최대 토큰 수
+ */
+export function splitCodeIntoParts(
+  code: string,
+  lineStart: number,
+  maxTokens: number
+): CodePart[] {
+  const lines = code.split("\n");
+  // 줄바꿈 토큰 포함
+  const lineTokens = lines.map((line) => estimateTokens(line) + 1);
+  const header = selectHeaderLines(lines, maxTokens);
+  const headerTokens = header.length
+    ? estimateTokens([...header, ELISION_MARKER].join("\n")) + 1
+    : 0;
+
+  const parts: CodePart[] = [];
+  let start = 0;
+  while (start < lines.length) {
+    const prefix =
+      parts.length > 0 && header.length > 0 ? [...header, ELISION_MARKER] : [];
+    const budget = maxTokens - (prefix.length > 0 ? headerTokens : 0);
+
+    // 한 줄이 한도를 넘더라도 최소 한 줄은 포함 (임베딩 시 잘림)
+    let end = start;
+    let used = 0;
+    while (
+      end < lines.length &&
+      (end === start || used + lineTokens[end] <= budget)
+    ) {
+      used += lineTokens[end];
+      end++;
+    }
+
+    parts.push({
+      code: [...prefix, ...lines.slice(start, end)].join("\n"),
+      lineStart: lineStart + start,
+      lineEnd: lineStart + end - 1,
+    });
+
+    if (end >= lines.length) {
+      break;
+    }
+
+    // 다음 조각은 앞 조각의 끝부분과 겹치도록 시작
+    let next = end;
+    let overlap = 0;
+    while (
+      next - 1 > start &&
+      overlap + lineTokens[next - 1] <= budget * PART_OVERLAP_RATIO
+    ) {
+      next--;
+      overlap += lineTokens[next];
+    }
+    start = next;
+  }
+
+  return parts;
+}
+
+/**
+ * 텍스트가 토큰 한도를 넘으면 뒤쪽 줄부터 잘라 한도에 맞춥니다.
+ * 첫 줄만으로 한도를 넘으면 해당 줄을 글자 단위로 자릅니다.
+ */
+export function truncateToTokenLimit(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+
+  const lines = text.split("\n");
+  const kept: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    const tokens = estimateTokens(line) + 1;
+    if (used + tokens > maxTokens) {
+      break;
+    }
+    kept.push(line);
+    used += tokens;
+  }
+
+  if (kept.length === 0) {
+    const ratio = maxTokens / estimateTokens(lines[0]);
+    return lines[0].slice(0, Math.floor(lines[0].length * ratio * 0.9));
+  }
+  return kept.join("\n");
+}
@@ -0,0 +1,277 @@
+import { v4 as uuidv4 } from "uuid";
+import type { CodeChunk, CodeChunkType } from "../codeChunkingService";
+import { ChunkerContext, LanguageChunker } from "./types";
+import { collectIdentifiers, isBlank } from "./utils";
+
+// 의존성 수집 시 제외할 Go 키워드 및 내장 타입/함수
+const GO_KEYWORDS = new Set([
+  "break", "case", "chan", "const", "continue", "default", "defer", "else",
+  "fallthrough", "for", "func", "go", "goto", "if", "import", "interface",
+  "map", "package", "range", "return", "select", "struct", "switch", "type",
+  "var", "nil", "true", "false", "iota", "bool", "byte", "rune", "string",
+  "error", "int", "int8", "int16", "int32", "int64", "uint", "uint8",
+  "uint16", "uint32", "uint64", "uintptr", "float32", "float64", "any",
+  "complex64", "complex128", "append", "cap", "close", "copy", "delete",
+  "len", "make", "new", "panic", "print", "println", "recover",
+]);
+
+// 최상위 선언 정보
+type GoDeclaration = {
+  type: CodeChunkType;
+  name: string;
+  startIndex: number;
+  endIndex: number;
+  // 메서드의 수신자 타입 이름
+  parentName?: string | null;
+};
+
+/**
+ * Go 청커
+ * 최상위 함수/메서드, 타입(struct, interface, 별칭), 상수를 추출합니다.
+ * 주석/문자열을 마스킹한 뒤 괄호 깊이로 선언 범위를 계산합니다.
+ */
+export class GoChunker implements LanguageChunker {
+  readonly language = "go";
+  readonly extensions = [".go"];
+
+  private projectId = "";
+
+  async initialize(context: ChunkerContext): Promise<void> {
+    this.projectId = context.projectId;
+  }
+
+  async shutdown(): Promise<void> {}
+
+  /**
+   * 주석, 문자열, 룬 리터럴 내용을 공백으로 치환합니다.
+   * 줄바꿈은 유지하므로 줄 번호가 원본과 일치합니다.
+   */
+  private maskSource(content: string): string {
+    const chars = content.split("");
+    let i = 0;
+
+    const blank = (index: number) => {
+      if (chars[index] !== "\n") {
+        chars[index] = " ";
+      }
+    };
+
+    while (i < chars.length) {
+      const char = chars[i];
+
+      // 한 줄 주석
+      if (char === "/" && chars[i + 1] === "/") {
+        while (i < chars.length && chars[i] !== "\n") {
+          blank(i);
+          i++;
+        }
+        continue;
+      }
+
+      // 블록 주석
+      if (char === "/" && chars[i + 1] === "*") {
+        const end = content.indexOf("*/", i + 2);
+        const stop = end === -1 ? chars.length : end + 2;
+        for (; i < stop; i++) {
+          blank(i);
+        }
+        continue;
+      }
+
+      // 원시 문자열 (백틱)
+      if (char === "`") {
+        i++;
+        while (i < chars.length && chars[i] !== "`") {
+          blank(i);
+          i++;
+        }
+        i++;
+        continue;
+      }
+
+      // 해석 문자열 및 룬
+      if (char === '"' || char === "'") {
+        i++;
+        while (i < chars.length && chars[i] !== char && chars[i] !== "\n") {
+          if (chars[i] === "\\") {
+            blank(i);
+            i++;
+          }
+          blank(i);
+          i++;
+        }
+        i++;
+        continue;
+      }
+
+      i++;
+    }
+
+    return chars.join("");
+  }
+
+  // 괄호 깊이 변화량 계산
+  private depthDelta(line: string): number {
+    let delta = 0;
+    for (const char of line) {
+      if (char === "(" || char === "[" || char === "{") {
+        delta++;
+      } else if (char === ")" || char === "]" || char === "}") {
+        delta--;
+      }
+    }
+    return delta;
+  }
+
+  // 시작 줄부터 괄호가 모두 닫히는 줄 찾기 (0 기반 인덱스)
+  private findDeclarationEnd(maskedLines: string[], startIndex: number): number {
+    let depth = 0;
+    for (let i = startIndex; i < maskedLines.length; i++) {
+      depth += this.depthDelta(maskedLines[i]);
+      if (depth <= 0) {
+        return i;
+      }
+    }
+    return maskedLines.length - 1;
+  }
+
+  // 타입 선언 본문으로 청크 유형 결정 (struct는 class로 취급)
+  private getTypeKind(spec: string): CodeChunkType {
+    return /^\s*[A-Za-z_]\w*(?:\[[^\]]*\])?\s+struct\b/.test(spec)
+      ? "class"
+      : "type";
+  }
+
+  // `type (...)` / `const (...)` 그룹 내부 선언 추출
+  private extractGroup(
+    maskedLines: string[],
+    groupStart: number,
+    kind: "type" | "const"
+  ): { declarations: GoDeclaration[]; endIndex: number } {
+    const groupEnd = this.findDeclarationEnd(maskedLines, groupStart);
+    const declarations: GoDeclaration[] = [];
+
+    let i = groupStart + 1;
+    while (i < groupEnd) {
+      const line = maskedLines[i];
+      const match = line.match(/^\s*([A-Za-z_]\w*)\b/);
+      if (isBlank(line) || !match) {
+        i++;
+        continue;
+      }
+
+      const endIndex = Math.min(
+        this.findDeclarationEnd(maskedLines, i),
+        groupEnd - 1
+      );
+      declarations.push({
+        type: kind === "const" ? "constant" : this.getTypeKind(line),
+        name: match[1],
+        startIndex: i,
+        endIndex,
+      });
+      i = endIndex + 1;
+    }
+
+    return { declarations, endIndex: groupEnd };
+  }
+
+  async extractChunks(
+    filePath: string,
+    relativePath: string,
+    content: string
+  ): Promise<CodeChunk[]> {
+    const lines = content.split("\n");
+    const maskedLines = this.maskSource(content).split("\n");
+    const declarations: GoDeclaration[] = [];
+
+    let i = 0;
+    while (i < maskedLines.length) {
+      const line = maskedLines[i];
+
+      // 함수 및 메서드 (메서드는 "수신자타입.메서드명" 형태로 이름 지정)
+      const funcMatch = line.match(
+        /^func\s+(?:\(\s*(?:[A-Za-z_]\w*\s+)?\*?\s*([A-Za-z_]\w*)(?:\[[^\]]*\])?\s*\)\s*)?([A-Za-z_]\w*)/
+      );
+      if (funcMatch) {
+        const [, receiver, funcName] = funcMatch;
+        const endIndex = this.findDeclarationEnd(maskedLines, i);
+        declarations.push({
+          type: receiver ? "method" : "function",
+          name: receiver ? `${receiver}.${funcName}` : funcName,
+          startIndex: i,
+          endIndex,
+          parentName: receiver || null,
+        });
+        i = endIndex + 1;
+        continue;
+      }
+
+      // 그룹 선언
+      const groupMatch = line.match(/^(type|const)\s*\(/);
+      if (groupMatch) {
+        const group = this.extractGroup(
+          maskedLines,
+          i,
+          groupMatch[1] as "type" | "const"
+        );
+        declarations.push(...group.declarations);
+        i = group.endIndex + 1;
+        continue;
+      }
+
+      // 단일 타입 선언
+      const typeMatch = line.match(/^type\s+([A-Za-z_]\w*)/);
+      if (typeMatch) {
+        const endIndex = this.findDeclarationEnd(maskedLines, i);
+        declarations.push({
+          type: this.getTypeKind(line.replace(/^type/, "")),
+          name: typeMatch[1],
+          startIndex: i,
+          endIndex,
+        });
+        i = endIndex + 1;
+        continue;
+      }
+
+      // 단일 상수 선언
+      const constMatch = line.match(/^const\s+([A-Za-z_]\w*)/);
+      if (constMatch) {
+        const endIndex = this.findDeclarationEnd(maskedLines, i);
+        declarations.push({
+          type: "constant",
+          name: constMatch[1],
+          startIndex: i,
+          endIndex,
+        });
+        i = endIndex + 1;
+        continue;
+      }
+
+      i++;
+    }
+
+    return declarations.map((declaration) => {
+      const { startIndex, endIndex, name } = declaration;
+      const maskedCode = maskedLines.slice(startIndex, endIndex + 1).join("\n");
+
+      return {
+        id: uuidv4(),
+        projectId: this.projectId,
+        path: relativePath,
+        code: lines.slice(startIndex, endIndex + 1).join("\n"),
+        type: declaration.type,
+        name,
+        symbol: name,
+        lineStart: startIndex + 1,
+        lineEnd: endIndex + 1,
+        dependencies: collectIdentifiers(maskedCode, GO_KEYWORDS, [
+          name.split(".").pop()!,
+        ]),
+        dependents: [],
+        parentName: declaration.parentName ?? null,
+        embedding: null,
+      };
+    });
+  }
+}
@@ -0,0 +1,12 @@
+import { LanguageChunker } from "./types";
+import { TypeScriptChunker } from "./typescriptChunker";
+import { PythonChunker } from "./pythonChunker";
+import { GoChunker } from "./goChunker";
+
+export * from "./types";
+export { TypeScriptChunker, PythonChunker, GoChunker };
+
+// 기본 제공 언어 청커 목록 생성
+export function createDefaultChunkers(): LanguageChunker[] {
+  return [new TypeScriptChunker(), new PythonChunker(), new GoChunker()];
+}
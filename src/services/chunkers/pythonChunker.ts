@@ -0,0 +1,347 @@
+import { v4 as uuidv4 } from "uuid";
+import type { CodeChunk, CodeChunkType } from "../codeChunkingService";
+import { ChunkerContext, LanguageChunker } from "./types";
+import { collectIdentifiers, getIndent, isBlank } from "./utils";
+
+// 의존성 수집 시 제외할 Python 키워드 및 자주 쓰이는 내장 이름
+const PYTHON_KEYWORDS = new Set([
+  "False", "None", "True", "and", "as", "assert", "async", "await", "break",
+  "class", "continue", "def", "del", "elif", "else", "except", "finally",
+  "for", "from", "global", "if", "import", "in", "is", "lambda", "nonlocal",
+  "not", "or", "pass", "raise", "return", "try", "while", "with", "yield",
+  "self", "cls", "print", "len", "range", "str", "int", "float", "bool",
+  "list", "dict", "set", "tuple", "type", "super", "isinstance",
+]);
+
+/**
+ * Python 청커
+ * 들여쓰기 기반으로 함수, 클래스, 타입 별칭, 모듈 상수를 추출합니다.
+ * 외부 파서 없이 동작하도록 주석/문자열을 마스킹한 뒤 논리적 줄 단위로 분석합니다.
+ */
+export class PythonChunker implements LanguageChunker {
+  readonly language = "python";
+  readonly extensions = [".py", ".pyi"];
+
+  private projectId = "";
+
+  async initialize(context: ChunkerContext): Promise<void> {
+    this.projectId = context.projectId;
+  }
+
+  async shutdown(): Promise<void> {}
+
+  /**
+   * 주석과 문자열 리터럴 내용을 공백으로 치환합니다.
+   * 줄바꿈은 유지하므로 줄 번호가 원본과 일치합니다.
+   */
+  private maskSource(content: string): string {
+    const chars = content.split("");
+    let i = 0;
+
+    while (i < chars.length) {
+      const char = chars[i];
+
+      // 주석
+      if (char === "#") {
+        while (i < chars.length && chars[i] !== "\n") {
+          chars[i] = " ";
+          i++;
+        }
+        continue;
+      }
+
+      // 문자열 (삼중 따옴표 포함)
+      if (char === '"' || char === "'") {
+        const triple = content.startsWith(char.repeat(3), i);
+        const quote = triple ? char.repeat(3) : char;
+        i += quote.length;
+
+        while (i < chars.length) {
+          if (chars[i] === "\\") {
+            chars[i] = " ";
+            if (i + 1 < chars.length && chars[i + 1] !== "\n") {
+              chars[i + 1] = " ";
+            }
+            i += 2;
+            continue;
+          }
+          if (content.startsWith(quote, i)) {
+            i += quote.length;
+            break;
+          }
+          // 단일 따옴표 문자열은 줄 끝에서 종료
+          if (!triple && chars[i] === "\n") {
+            break;
+          }
+          if (chars[i] !== "\n") {
+            chars[i] = " ";
+          }
+          i++;
+        }
+        continue;
+      }
+
+      i++;
+    }
+
+    return chars.join("");
+  }
+
+  /**
+   * 각 줄이 새로운 논리적 문장의 시작인지 계산합니다.
+   * 괄호 내부나 백슬래시 연속 줄은 문장 시작으로 보지 않습니다.
+   */
+  private findStatementStarts(maskedLines: string[]): boolean[] {
+    const starts: boolean[] = [];
+    let depth = 0;
+    let continued = false;
+
+    for (const line of maskedLines) {
+      starts.push(depth === 0 && !continued && !isBlank(line));
+
+      for (const char of line) {
+        if (char === "(" || char === "[" || char === "{") {
+          depth++;
+        } else if (char === ")" || char === "]" || char === "}") {
+          depth = Math.max(0, depth - 1);
+        }
+      }
+      continued = line.trimEnd().endsWith("\\");
+    }
+
+    return starts;
+  }
+
+  // 블록(def/class)의 마지막 줄 찾기 (0 기반 인덱스)
+  private findBlockEnd(
+    maskedLines: string[],
+    starts: boolean[],
+    headerIndex: number
+  ): number {
+    const headerIndent = getIndent(maskedLines[headerIndex]);
+    let next = headerIndex + 1;
+
+    while (next < maskedLines.length) {
+      if (starts[next] && getIndent(maskedLines[next]) <= headerIndent) {
+        break;
+      }
+      next++;
+    }
+
+    return this.trimTrailingBlank(maskedLines, headerIndex, next - 1);
+  }
+
+  // 단일 문장(상수, 타입 별칭)의 마지막 줄 찾기 (0 기반 인덱스)
+  private findStatementEnd(
+    maskedLines: string[],
+    starts: boolean[],
+    startIndex: number
+  ): number {
+    let next = startIndex + 1;
+    while (next < maskedLines.length && !starts[next]) {
+      next++;
+    }
+    return this.trimTrailingBlank(maskedLines, startIndex, next - 1);
+  }
+
+  private trimTrailingBlank(
+    maskedLines: string[],
+    startIndex: number,
+    endIndex: number
+  ): number {
+    let end = endIndex;
+    while (end > startIndex && isBlank(maskedLines[end])) {
+      end--;
+    }
+    return end;
+  }
+
+  // 데코레이터가 있으면 청크 시작 줄을 데코레이터까지 확장
+  private includeDecorators(
+    maskedLines: string[],
+    starts: boolean[],
+    headerIndex: number
+  ): number {
+    const headerIndent = getIndent(maskedLines[headerIndex]);
+    let start = headerIndex;
+
+    for (let i = headerIndex - 1; i >= 0; i--) {
+      if (!starts[i]) {
+        // 여러 줄에 걸친 데코레이터 인자
+        continue;
+      }
+      const line = maskedLines[i];
+      if (getIndent(line) === headerIndent && line.trim().startsWith("@")) {
+        start = i;
+      } else {
+        break;
+      }
+    }
+
+    return start;
+  }
+
+  // 청크 객체 생성
+  private createChunk(
+    lines: string[],
+    maskedLines: string[],
+    relativePath: string,
+    declaration: {
+      type: CodeChunkType;
+      name: string;
+      startIndex: number;
+      endIndex: number;
+      parentName?: string | null;
+    }
+  ): CodeChunk {
+    const { type, name, startIndex, endIndex } = declaration;
+    const maskedCode = maskedLines
+      .slice(startIndex, endIndex + 1)
+      .join("\n");
+    const shortName = name.split(".").pop()!;
+
+    return {
+      id: uuidv4(),
+      projectId: this.projectId,
+      path: relativePath,
+      code: lines.slice(startIndex, endIndex + 1).join("\n"),
+      type,
+      name,
+      symbol: name,
+      lineStart: startIndex + 1,
+      lineEnd: endIndex + 1,
+      dependencies: collectIdentifiers(maskedCode, PYTHON_KEYWORDS, [
+        shortName,
+      ]),
+      dependents: [],
+      parentName: declaration.parentName ?? null,
+      embedding: null,
+    };
+  }
+
+  /**
+   * 클래스 본문에서 메서드를 추출합니다.
+   * 메서드 이름은 "클래스명.메서드명"으로 한정됩니다.
+   */
+  private extractMethods(
+    lines: string[],
+    maskedLines: string[],
+    starts: boolean[],
+    relativePath: string,
+    className: string,
+    classHeader: number,
+    classEnd: number
+  ): CodeChunk[] {
+    const methods: CodeChunk[] = [];
+    let bodyIndent: number | null = null;
+
+    for (let i = classHeader + 1; i <= classEnd; i++) {
+      if (!starts[i]) {
+        continue;
+      }
+
+      // 클래스 본문의 첫 문장 들여쓰기를 기준으로 직계 멤버만 처리
+      const indent = getIndent(maskedLines[i]);
+      if (bodyIndent === null) {
+        bodyIndent = indent;
+      }
+      if (indent !== bodyIndent) {
+        continue;
+      }
+
+      const defMatch = maskedLines[i]
+        .trim()
+        .match(/^(?:async\s+)?def\s+([A-Za-z_]\w*)/);
+      if (!defMatch) {
+        continue;
+      }
+
+      methods.push(
+        this.createChunk(lines, maskedLines, relativePath, {
+          type: "method",
+          name: `${className}.${defMatch[1]}`,
+          startIndex: this.includeDecorators(maskedLines, starts, i),
+          endIndex: this.findBlockEnd(maskedLines, starts, i),
+          parentName: className,
+        })
+      );
+    }
+
+    return methods;
+  }
+
+  async extractChunks(
+    filePath: string,
+    relativePath: string,
+    content: string
+  ): Promise<CodeChunk[]> {
+    const lines = content.split("\n");
+    const maskedLines = this.maskSource(content).split("\n");
+    const starts = this.findStatementStarts(maskedLines);
+    const chunks: CodeChunk[] = [];
+
+    for (let i = 0; i < maskedLines.length; i++) {
+      // 모듈 최상위 문장만 청크로 추출
+      if (!starts[i] || getIndent(maskedLines[i]) !== 0) {
+        continue;
+      }
+
+      const line = maskedLines[i];
+      let type: CodeChunkType | null = null;
+      let name = "";
+      let startIndex = i;
+      let endIndex = i;
+
+      const defMatch = line.match(/^(?:async\s+)?def\s+([A-Za-z_]\w*)/);
+      const classMatch = line.match(/^class\s+([A-Za-z_]\w*)/);
+      const typeMatch =
+        line.match(/^type\s+([A-Za-z_]\w*)/) ||
+        line.match(/^([A-Za-z_]\w*)\s*:\s*(?:typing\.)?TypeAlias\b/);
+      const constantMatch = line.match(/^([A-Z][A-Z0-9_]*)\s*(?::[^=]*)?=(?!=)/);
+
+      if (defMatch || classMatch) {
+        type = defMatch ? "function" : "class";
+        name = (defMatch || classMatch)![1];
+        startIndex = this.includeDecorators(maskedLines, starts, i);
+        endIndex = this.findBlockEnd(maskedLines, starts, i);
+      } else if (typeMatch) {
+        type = "type";
+        name = typeMatch[1];
+        endIndex = this.findStatementEnd(maskedLines, starts, i);
+      } else if (constantMatch) {
+        type = "constant";
+        name = constantMatch[1];
+        endIndex = this.findStatementEnd(maskedLines, starts, i);
+      }
+
+      if (!type || !name) {
+        continue;
+      }
+
+      chunks.push(
+        this.createChunk(lines, maskedLines, relativePath, {
+          type,
+          name,
+          startIndex,
+          endIndex,
+        })
+      );
+
+      if (type === "class") {
+        chunks.push(
+          ...this.extractMethods(
+            lines,
+            maskedLines,
+            starts,
+            relativePath,
+            name,
+            i,
+            endIndex
+          )
+        );
+      }
+    }
+
+    return chunks;
+  }
+}
@@ -0,0 +1,36 @@
+import type { CodeChunk } from "../codeChunkingService";
+
+// 청커 초기화 시 전달되는 프로젝트 정보
+export type ChunkerContext = {
+  projectRoot: string;
+  projectId: string;
+};
+
+/**
+ * 언어별 청커 플러그인 인터페이스
+ * CodeChunkingService는 파일 확장자에 따라 알맞은 청커로 청킹을 위임합니다.
+ */
+export interface LanguageChunker {
+  // 청커가 담당하는 언어 이름 (예: "typescript", "python")
+  readonly language: string;
+  // 처리 가능한 파일 확장자 목록 (점 포함, 소문자)
+  readonly extensions: string[];
+
+  // 프로젝트 단위 초기화 (파서/컴파일러 준비 등)
+  initialize(context: ChunkerContext): Promise<void>;
+
+  // 리소스 정리
+  shutdown(): Promise<void>;
+
+  /**
+   * 파일 하나에서 코드 청크를 추출합니다.
+   * @param filePath 파일 절대 경로
+   * @param relativePath 프로젝트 루트 기준 상대 경로
+   * @param content 파일 내용
+   */
+  extractChunks(
+    filePath: string,
+    relativePath: string,
+    content: string
+  ): Promise<CodeChunk[]>;
+}
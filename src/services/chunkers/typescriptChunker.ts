@@ -0,0 +1,471 @@
+import * as path from "path";
+import * as ts from "typescript";
+import { v4 as uuidv4 } from "uuid";
+import type { CodeChunk, CodeChunkType } from "../codeChunkingService";
+import { ChunkerContext, LanguageChunker } from "./types";
+
+// TypeScript 컴파일러 API 기반 청커 (TS/JS)
+export class TypeScriptChunker implements LanguageChunker {
+  readonly language = "typescript";
+  readonly extensions = [".ts", ".tsx", ".js", ".jsx"];
+
+  private projectId = "";
+  private program: ts.Program | null = null;
+  private typeChecker: ts.TypeChecker | null = null;
+
+  // 컴파일러 프로그램 초기화
+  async initialize(context: ChunkerContext): Promise<void> {
+    this.projectId = context.projectId;
+
+    // tsconfig.json 찾기
+    const tsconfigPath = ts.findConfigFile(
+      context.projectRoot,
+      ts.sys.fileExists,
+      "tsconfig.json"
+    );
+
+    if (!tsconfigPath) {
+      // 기본 컴파일러 옵션 설정
+      const compilerOptions: ts.CompilerOptions = {
+        target: ts.ScriptTarget.ES2020,
+        module: ts.ModuleKind.CommonJS,
+        moduleResolution: ts.ModuleResolutionKind.NodeJs,
+        esModuleInterop: true,
+        skipLibCheck: true,
+        strict: true,
+      };
+
+      // 프로그램 생성
+      this.program = ts.createProgram([], compilerOptions);
+    } else {
+      // tsconfig.json 파싱
+      const configFile = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+      const parsedConfig = ts.parseJsonConfigFileContent(
+        configFile.config,
+        ts.sys,
+        path.dirname(tsconfigPath)
+      );
+
+      // 프로그램 생성
+      this.program = ts.createProgram(
+        parsedConfig.fileNames,
+        parsedConfig.options
+      );
+    }
+
+    this.typeChecker = this.program.getTypeChecker();
+  }
+
+  // 리소스 정리
+  async shutdown(): Promise<void> {
+    this.program = null;
+    this.typeChecker = null;
+  }
+
+  private getNodePosition(
+    node: ts.Node,
+    sourceFile: ts.SourceFile
+  ): {
+    lineStart: number;
+    lineEnd: number;
+  } {
+    const { line: lineStart } = ts.getLineAndCharacterOfPosition(
+      sourceFile,
+      node.getStart(sourceFile)
+    );
+    const { line: lineEnd } = ts.getLineAndCharacterOfPosition(
+      sourceFile,
+      node.getEnd()
+    );
+    return { lineStart: lineStart + 1, lineEnd: lineEnd + 1 };
+  }
+
+  private isFunctionLike(node: ts.Node): boolean {
+    return (
+      ts.isFunctionDeclaration(node) ||
+      ts.isMethodDeclaration(node) ||
+      ts.isArrowFunction(node) ||
+      ts.isFunctionExpression(node)
+    );
+  }
+
+  // 클래스 멤버(메서드, 접근자, 생성자, 함수형 프로퍼티) 여부
+  private isClassMember(node: ts.Node): boolean {
+    if (!node.parent || !ts.isClassLike(node.parent)) {
+      return false;
+    }
+
+    if (
+      ts.isMethodDeclaration(node) ||
+      ts.isGetAccessorDeclaration(node) ||
+      ts.isSetAccessorDeclaration(node) ||
+      ts.isConstructorDeclaration(node)
+    ) {
+      return true;
+    }
+
+    // 화살표 함수 등으로 초기화된 프로퍼티 (예: handle = () => {})
+    return (
+      ts.isPropertyDeclaration(node) &&
+      !!node.initializer &&
+      this.isFunctionLike(node.initializer)
+    );
+  }
+
+  // 객체 리터럴의 함수형 멤버 여부 (예: { execute() {} }, { run: () => {} })
+  private isObjectLiteralMember(node: ts.Node): boolean {
+    if (!node.parent || !ts.isObjectLiteralExpression(node.parent)) {
+      return false;
+    }
+
+    if (
+      ts.isMethodDeclaration(node) ||
+      ts.isGetAccessorDeclaration(node) ||
+      ts.isSetAccessorDeclaration(node)
+    ) {
+      return true;
+    }
+
+    return (
+      ts.isPropertyAssignment(node) && this.isFunctionLike(node.initializer)
+    );
+  }
+
+  // 클래스 멤버가 속한 클래스 이름 (익명 클래스면 null)
+  private getEnclosingClassName(node: ts.Node): string | null {
+    const parent = node.parent;
+    if (parent && ts.isClassLike(parent) && parent.name) {
+      return parent.name.text;
+    }
+    return null;
+  }
+
+  // 클래스/객체 리터럴 멤버 이름 (생성자는 "constructor")
+  private getMemberName(node: ts.Node, sourceFile: ts.SourceFile): string {
+    if (ts.isConstructorDeclaration(node)) {
+      return "constructor";
+    }
+
+    const name = (node as ts.NamedDeclaration).name;
+    if (!name) {
+      return "";
+    }
+    if (
+      ts.isIdentifier(name) ||
+      ts.isPrivateIdentifier(name) ||
+      ts.isStringLiteral(name) ||
+      ts.isNumericLiteral(name)
+    ) {
+      return name.text;
+    }
+    return name.getText(sourceFile);
+  }
+
+  private getNodeType(node: ts.Node): CodeChunkType | null {
+    if (this.isClassMember(node)) {
+      return "method";
+    } else if (this.isObjectLiteralMember(node)) {
+      return "function";
+    } else if (this.isFunctionLike(node)) {
+      return "function";
+    } else if (ts.isClassDeclaration(node)) {
+      return "class";
+    } else if (
+      ts.isInterfaceDeclaration(node) ||
+      ts.isTypeAliasDeclaration(node)
+    ) {
+      return "type";
+    } else if (
+      ts.isVariableDeclaration(node) &&
+      node.parent &&
+      ts.isVariableDeclarationList(node.parent) &&
+      node.parent.flags & ts.NodeFlags.Const
+    ) {
+      // 변수가 함수인지 확인
+      const initializer = node.initializer;
+      if (initializer && this.isFunctionLike(initializer)) {
+        return "function";
+      }
+      return "constant";
+    }
+    return null;
+  }
+
+  /**
+   * 심볼 경로를 구성하는 노드의 이름 조각을 반환합니다.
+   * 이름을 가진 함수, 클래스, 멤버, 변수, 네임스페이스만 경로에 포함됩니다.
+   */
+  private getContainerSegment(
+    node: ts.Node,
+    sourceFile: ts.SourceFile
+  ): string | null {
+    if (
+      (ts.isClassLike(node) ||
+        ts.isFunctionDeclaration(node) ||
+        ts.isFunctionExpression(node)) &&
+      node.name
+    ) {
+      return node.name.text;
+    }
+
+    if (
+      this.isClassMember(node) ||
+      this.isObjectLiteralMember(node) ||
+      ts.isPropertyAssignment(node)
+    ) {
+      return this.getMemberName(node, sourceFile) || null;
+    }
+
+    if (
+      (ts.isVariableDeclaration(node) || ts.isModuleDeclaration(node)) &&
+      ts.isIdentifier(node.name)
+    ) {
+      return node.name.text;
+    }
+
+    return null;
+  }
+
+  /**
+   * 노드를 감싸는 선언들의 이름으로 한정된 심볼 경로를 계산합니다.
+   * 예: createProjectCommand.execute, TypeScriptChunker.extractChunks.visit
+   */
+  private getSymbolPath(
+    node: ts.Node,
+    name: string,
+    sourceFile: ts.SourceFile
+  ): string {
+    const segments = [this.getContainerSegment(node, sourceFile) || name];
+
+    for (
+      let current = node.parent;
+      current && !ts.isSourceFile(current);
+      current = current.parent
+    ) {
+      const segment = this.getContainerSegment(current, sourceFile);
+      if (segment) {
+        segments.unshift(segment);
+      }
+    }
+
+    return segments.join(".");
+  }
+
+  /**
+   * 심볼의 청크 이름을 반환합니다.
+   * 클래스 멤버는 메서드 청크와 연결되도록 "클래스명.멤버명"으로 한정합니다.
+   */
+  private getSymbolChunkName(symbol: ts.Symbol): string {
+    const declaration = symbol.declarations?.[0];
+    if (declaration && ts.isClassElement(declaration)) {
+      const className = this.getEnclosingClassName(declaration);
+      if (className) {
+        return `${className}.${symbol.getName()}`;
+      }
+    }
+    return symbol.getName();
+  }
+
+  /**
+   * 타입 검사기로 계산한 선언의 타입 시그니처를 반환합니다.
+   * 함수형 선언은 매개변수와 반환 타입, 상수는 추론된 타입, 클래스는 상속 절을 사용하며
+   * 타입/인터페이스처럼 코드 자체가 시그니처인 선언은 null입니다.
+   */
+  private getTypeSignature(
+    node: ts.Node,
+    name: string,
+    sourceFile: ts.SourceFile,
+    typeChecker: ts.TypeChecker
+  ): string | null {
+    const shortName = name.split(".").pop()!;
+    const initializer =
+      ts.isVariableDeclaration(node) ||
+      ts.isPropertyDeclaration(node) ||
+      ts.isPropertyAssignment(node)
+        ? node.initializer
+        : undefined;
+    const declaration =
+      initializer && this.isFunctionLike(initializer) ? initializer : node;
+
+    try {
+      if (ts.isFunctionLike(declaration)) {
+        const signature = typeChecker.getSignatureFromDeclaration(declaration);
+        if (signature) {
+          return `${shortName}${typeChecker.signatureToString(signature)}`;
+        }
+      }
+
+      if (ts.isClassDeclaration(node)) {
+        const heritage = (node.heritageClauses || [])
+          .map((clause) => clause.getText(sourceFile))
+          .join(" ");
+        return heritage ? `class ${shortName} ${heritage}` : null;
+      }
+
+      if (ts.isVariableDeclaration(node)) {
+        const type = typeChecker.getTypeAtLocation(node.name);
+        return `${shortName}: ${typeChecker.typeToString(type)}`;
+      }
+    } catch (error) {
+      // 타입 정보를 계산할 수 없는 선언은 시그니처 없이 임베딩
+    }
+
+    return null;
+  }
+
+  // 선언 앞의 JSDoc 본문 (주석 기호 제거, 변수 선언은 선언문의 JSDoc 사용)
+  private getDocComment(
+    node: ts.Node,
+    sourceFile: ts.SourceFile
+  ): string | null {
+    const docs = ts
+      .getJSDocCommentsAndTags(node)
+      .filter((doc): doc is ts.JSDoc => ts.isJSDoc(doc));
+    if (docs.length === 0) {
+      return null;
+    }
+
+    const text = docs
+      .map((doc) =>
+        doc
+          .getText(sourceFile)
+          .replace(/^\/\*\*+\s?|\s*\*+\/$/g, "")
+          .split("\n")
+          .map((line) => line.replace(/^\s*\*\s?/, "").trimEnd())
+          .join("\n")
+          .trim()
+      )
+      .filter((doc) => doc)
+      .join("\n");
+    return text || null;
+  }
+
+  private collectDependencies(
+    node: ts.Node,
+    sourceFile: ts.SourceFile,
+    typeChecker: ts.TypeChecker
+  ): string[] {
+    const dependencies = new Set<string>();
+
+    // 노드를 재귀적으로 방문하여 의존성 수집
+    const visit = (node: ts.Node) => {
+      // 식별자 처리
+      if (ts.isIdentifier(node)) {
+        const symbol = typeChecker.getSymbolAtLocation(node);
+        if (symbol) {
+          const declaration = symbol.declarations?.[0];
+          if (declaration) {
+            dependencies.add(this.getSymbolChunkName(symbol));
+          }
+        }
+      }
+
+      // 타입 참조 처리
+      if (ts.isTypeReferenceNode(node)) {
+        const type = typeChecker.getTypeFromTypeNode(node);
+        const symbol = type.getSymbol();
+        if (symbol) {
+          const name = symbol.getName();
+          dependencies.add(name);
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(node);
+    return Array.from(dependencies);
+  }
+
+  async extractChunks(
+    filePath: string,
+    relativePath: string,
+    content: string
+  ): Promise<CodeChunk[]> {
+    if (!this.program || !this.typeChecker) {
+      throw new Error("TypeScript 프로그램이 초기화되지 않았습니다.");
+    }
+
+    const sourceFile = this.program.getSourceFile(filePath);
+    if (!sourceFile) {
+      return [];
+    }
+
+    const chunks: CodeChunk[] = [];
+    const lines = content.split("\n");
+
+    const visit = (node: ts.Node) => {
+      const type = this.getNodeType(node);
+      if (type) {
+        const { lineStart, lineEnd } = this.getNodePosition(node, sourceFile);
+        const codeLines = lines.slice(lineStart - 1, lineEnd);
+        const code = codeLines.join("\n");
+
+        let name = "";
+        let parentName: string | null = null;
+        if (type === "method") {
+          // 메서드는 "클래스명.메서드명"으로 한정하고 클래스 청크를 부모로 연결
+          const className = this.getEnclosingClassName(node);
+          const memberName = this.getMemberName(node, sourceFile);
+          if (className && memberName) {
+            name = `${className}.${memberName}`;
+            parentName = className;
+          }
+        } else if (
+          (ts.isFunctionDeclaration(node) ||
+            ts.isClassDeclaration(node) ||
+            ts.isInterfaceDeclaration(node) ||
+            ts.isTypeAliasDeclaration(node)) &&
+          node.name &&
+          ts.isIdentifier(node.name)
+        ) {
+          name = node.name.text;
+        } else if (
+          ts.isVariableDeclaration(node) &&
+          ts.isIdentifier(node.name)
+        ) {
+          name = node.name.text;
+        } else if (this.isObjectLiteralMember(node)) {
+          name = this.getMemberName(node, sourceFile);
+        }
+
+        if (name) {
+          const dependencies = this.collectDependencies(
+            node,
+            sourceFile,
+            this.typeChecker!
+          );
+
+          const chunk: CodeChunk = {
+            id: uuidv4(),
+            projectId: this.projectId,
+            path: relativePath, // 상대 경로 사용
+            code,
+            type,
+            name,
+            symbol: this.getSymbolPath(node, name, sourceFile),
+            lineStart,
+            lineEnd,
+            dependencies,
+            dependents: [],
+            parentName,
+            signature: this.getTypeSignature(
+              node,
+              name,
+              sourceFile,
+              this.typeChecker!
+            ),
+            docComment: this.getDocComment(node, sourceFile),
+            embedding: null,
+          };
+          chunks.push(chunk);
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return chunks;
+  }
+}
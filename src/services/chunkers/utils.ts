@@ -0,0 +1,45 @@
+// 라인 기반 청커(Python, Go 등)에서 공통으로 사용하는 헬퍼
+
+/**
+ * 마스킹된 코드(주석/문자열이 공백으로 치환된 코드)에서 식별자를 수집합니다.
+ * 실제 의존성 여부는 CodeChunkingService에서 프로젝트 내 청크 이름과 대조하여 결정됩니다.
+ * @param maskedCode 주석과 문자열 리터럴이 제거된 코드
+ * @param keywords 제외할 언어 키워드
+ * @param exclude 제외할 이름 (청크 자기 자신 등)
+ */
+export function collectIdentifiers(
+  maskedCode: string,
+  keywords: Set<string>,
+  exclude: string[] = []
+): string[] {
+  const identifiers = new Set<string>();
+  const matches = maskedCode.match(/[A-Za-z_][A-Za-z0-9_]*/g) || [];
+
+  for (const identifier of matches) {
+    if (!keywords.has(identifier) && !exclude.includes(identifier)) {
+      identifiers.add(identifier);
+    }
+  }
+
+  return Array.from(identifiers);
+}
+
+// 줄의 들여쓰기 폭 계산 (탭은 4칸으로 간주)
+export function getIndent(line: string): number {
+  let indent = 0;
+  for (const char of line) {
+    if (char === " ") {
+      indent++;
+    } else if (char === "\t") {
+      indent += 4;
+    } else {
+      break;
+    }
+  }
+  return indent;
+}
+
+// 빈 줄 여부
+export function isBlank(line: string): boolean {
+  return line.trim() === "";
+}
@@ -1,26 +1,150 @@
 import { drizzle } from "drizzle-orm/node-postgres";
 import { Pool } from "pg";
-import { CodeChunk as CodeChunkDto } from "./codeChunkingService";
-import { codeChunks, projects } from "../db/schema";
+import {
+  CodeChunk as CodeChunkDto,
+  CodeChunkType,
+} from "./codeChunkingService";
+import {
+  codeChunks,
+  projects,
+  type CodeChunk as CodeChunkRow,
+} from "../db/schema";
 import { v4 as uuidv4 } from "uuid";
 import {
   eq,
   and,
   sql,
   gt,
+  ne,
   desc,
   asc,
   getTableColumns,
   cosineDistance,
+  inArray,
+  isNull,
+  or,
+  like,
+  SQL,
 } from "drizzle-orm";
 import "dotenv/config";
 import { count } from "drizzle-orm";
+import { buildLexicalQuery } from "./lexicalSearch";
+import { ChunkSearchFilters, globToRegex } from "./searchFilters";
+import { EmbeddingModelInfo } from "./embeddings";
+import {
+  buildIndexParameters,
+  DEFAULT_EF_SEARCH,
+  embeddingExpression,
+  getVectorIndexName,
+  loadSearchTuning,
+  MAX_EF_SEARCH,
+  parseVectorIndexDefinition,
+  supportsIterativeScan,
+  toProjectKey,
+  VECTOR_INDEX_PREFIX,
+  VectorIndexInfo,
+  VectorIndexOptions,
+  vectorOperatorClass,
+  VectorSearchTuning,
+  vectorTypeName,
+} from "./vectorIndex";
+
+// 청크 식별 정보 (증분 분석 시 추가/갱신/삭제 판별용)
+export type ChunkIdentity = {
+  id: string;
+  path: string;
+  type: CodeChunkType;
+  symbol: string;
+};
+
+// 프로젝트 청크 통계 (프로젝트 상태 표시용)
+export type ProjectChunkStats = {
+  files: number;
+  chunks: number;
+  // 임베딩 상태별 청크 수
+  embeddingStatus: Record<CodeChunkRow["embeddingStatus"], number>;
+  // 재임베딩 중 스테이징 임베딩이 준비된 청크 수
+  stagedEmbeddings: number;
+};
+
+// 청크 위치 (중복 코드 보고용)
+export type ChunkLocation = ChunkIdentity & {
+  lineStart: number;
+  lineEnd: number;
+};
+
+// 임베딩이 가까운 청크 쌍 (중복 코드 보고용)
+export type SimilarChunkPair = {
+  source: ChunkLocation;
+  target: ChunkLocation;
+  similarity: number;
+};
+
+// 파일 개요 항목 (코드와 임베딩을 제외한 심볼 정보)
+export type ChunkOutlineEntry = {
+  id: string;
+  path: string;
+  type: CodeChunkType;
+  name: string;
+  symbol: string;
+  parentName: string | null;
+  lineStart: number;
+  lineEnd: number;
+  dependencyCount: number;
+  dependentCount: number;
+};
+
+// 임베딩 대상 청크 (재임베딩, pending 청크 재시도용)
+export type EmbeddingSourceChunk = {
+  id: string;
+  path: string;
+  code: string;
+  // 분석 시 저장한 임베딩 문서 (저장 전에 분석된 청크는 null)
+  embeddingText: string | null;
+};
+
+// 검색 방식
+export type SearchMode = "vector" | "lexical" | "hybrid";
+
+// 검색 결과 청크 (검색 방식별 점수 포함)
+export type ScoredCodeChunk = CodeChunkDto & {
+  // 코사인 유사도 (벡터 검색)
+  similarity?: number;
+  // ts_rank_cd 점수 (렉시컬 검색)
+  lexicalScore?: number;
+  // Reciprocal Rank Fusion 점수 (하이브리드 검색)
+  score?: number;
+  // 분할된 하위 청크로 일치한 경우 일치한 줄 범위
+  matchedLines?: { lineStart: number; lineEnd: number };
+};
+
+// 청크 ID(UUID) 형식
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// RRF 순위 상수 (값이 클수록 하위 순위의 영향이 커짐)
+const RRF_K = 60;
+// 청크 저장 시 한 INSERT에 넣을 행 수 (행마다 약 19개의 바인드 파라미터 사용)
+const SAVE_BATCH_SIZE = 1000;
+// 하이브리드 검색 시 각 검색 방식에서 가져올 최소 후보 수
+const HYBRID_MIN_CANDIDATES = 50;
+// 벡터 검색 시 같은 원본 청크의 하위 청크가 합쳐질 것을 고려해 더 가져올 후보 배수
+// (합친 결과가 limit보다 적으면 이 배수로 후보 수를 늘려 다시 조회)
+const SUB_CHUNK_OVERFETCH = 2;
+
+// 벡터 검색 쿼리 실행 대상 (연결 풀 또는 검색 파라미터를 설정한 트랜잭션)
+type VectorQueryExecutor = Pick<
+  ReturnType<typeof drizzle>,
+  "select" | "execute"
+>;
 
 // 코드 청크 저장소
 export class CodeChunkRepository {
   private static instance: CodeChunkRepository | null = null; // 싱글톤 인스턴스
   private db: ReturnType<typeof drizzle>;
   private pool: Pool;
+  // 설치된 pgvector 확장 버전 (처음 조회할 때 캐시)
+  private vectorExtensionVersion: Promise<string | null> | null = null;
 
   // 생성자를 private으로 변경
   private constructor() {
@@ -110,9 +234,36 @@ export class CodeChunkRepository {
     }
   }
 
+  // 프로젝트의 임베딩 모델 정보 기록
+  async updateProjectEmbeddingModel(
+    projectId: string,
+    modelInfo: EmbeddingModelInfo
+  ): Promise<void> {
+    try {
+      await this.db
+        .update(projects)
+        .set({
+          embeddingProvider: modelInfo.provider,
+          embeddingModel: modelInfo.model,
+          embeddingDimensions: modelInfo.dimensions,
+          updatedAt: new Date(),
+        })
+        .where(eq(projects.id, projectId));
+    } catch (error) {
+      console.error(
+        `프로젝트 ${projectId}의 임베딩 모델 정보 업데이트 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
   // 프로젝트 삭제
   async deleteProject(projectId: string): Promise<boolean> {
     try {
+      // 프로젝트별 벡터 인덱스 삭제
+      await this.dropVectorIndexes(projectId);
+
       // 먼저 관련된 코드 청크 삭제
       await this.db
         .delete(codeChunks)
@@ -139,7 +290,7 @@ export class CodeChunkRepository {
     }
 
     try {
-      // 중복 청크 제거 (projectId + path + name 조합이 동일한 경우)
+      // 중복 청크 제거 (projectId + path + type + symbol 조합이 동일한 경우)
       const uniqueChunks = this.deduplicateChunks(chunks);
 
       if (chunks.length !== uniqueChunks.length) {
@@ -153,30 +304,56 @@ export class CodeChunkRepository {
         code: chunk.code,
         type: chunk.type,
         name: chunk.name,
+        symbol: chunk.symbol,
         lineStart: chunk.lineStart,
         lineEnd: chunk.lineEnd,
         dependencies: chunk.dependencies || [],
         dependents: chunk.dependents || [],
+        parentName: chunk.parentName || null,
+        parentSymbol: chunk.parentSymbol || null,
+        embeddingText: chunk.embeddingText || null,
+        contentHash: chunk.contentHash || null,
         embedding: chunk.embedding || null, // 임베딩이 없으면 null 사용
+        embeddingStatus:
+          chunk.embeddingStatus || (chunk.embedding ? "embedded" : "skipped"),
+        embeddingError: chunk.embeddingError || null,
       }));
 
-      // 청크를 데이터베이스에 삽입
-      const insertedChunks = await this.db
-        .insert(codeChunks)
-        .values(chunkValues)
-        .onConflictDoUpdate({
-          target: [codeChunks.projectId, codeChunks.path, codeChunks.name],
-          set: {
-            code: sql`excluded.code`,
-            lineStart: sql`excluded.line_start`,
-            lineEnd: sql`excluded.line_end`,
-            embedding: sql`excluded.embedding`,
-            dependencies: sql`excluded.dependencies`,
-            dependents: sql`excluded.dependents`,
-            updatedAt: sql`current_timestamp`,
-          },
-        })
-        .returning();
+      // 청크를 배치로 나눠 한 트랜잭션에서 삽입
+      // (한 쿼리의 바인드 파라미터는 65535개까지이므로 청크가 많으면 한 번에 넣을 수 없음)
+      await this.db.transaction(async (tx) => {
+        for (let i = 0; i < chunkValues.length; i += SAVE_BATCH_SIZE) {
+          await tx
+            .insert(codeChunks)
+            .values(chunkValues.slice(i, i + SAVE_BATCH_SIZE))
+            .onConflictDoUpdate({
+              target: [
+                codeChunks.projectId,
+                codeChunks.path,
+                codeChunks.type,
+                codeChunks.symbol,
+              ],
+              set: {
+                code: sql`excluded.code`,
+                name: sql`excluded.name`,
+                lineStart: sql`excluded.line_start`,
+                lineEnd: sql`excluded.line_end`,
+                embedding: sql`excluded.embedding`,
+                embeddingStatus: sql`excluded.embedding_status`,
+                embeddingError: sql`excluded.embedding_error`,
+                // 재임베딩 중 내용이 바뀐 청크는 스테이징 임베딩을 다시 생성하도록 초기화
+                stagingEmbedding: sql`CASE WHEN ${codeChunks.contentHash} IS DISTINCT FROM excluded.content_hash THEN NULL ELSE ${codeChunks.stagingEmbedding} END`,
+                contentHash: sql`excluded.content_hash`,
+                embeddingText: sql`excluded.embedding_text`,
+                dependencies: sql`excluded.dependencies`,
+                dependents: sql`excluded.dependents`,
+                parentName: sql`excluded.parent_name`,
+                parentSymbol: sql`excluded.parent_symbol`,
+                updatedAt: sql`current_timestamp`,
+              },
+            });
+        }
+      });
     } catch (error) {
       console.error("코드 청크 저장 중 오류 발생:", error);
       throw error;
@@ -188,8 +365,8 @@ export class CodeChunkRepository {
     const uniqueMap = new Map<string, CodeChunkDto>();
 
     for (const chunk of chunks) {
-      // 고유 키 생성 (projectId + path + name)
-      const uniqueKey = `${chunk.projectId}-${chunk.path}-${chunk.name}`;
+      // 고유 키 생성 (projectId + path + type + symbol)
+      const uniqueKey = `${chunk.projectId}-${chunk.path}-${chunk.type}-${chunk.symbol}`;
 
       // 중복이 발견되지 않았거나, 기존 청크보다 더 최신 정보를 가진 경우 맵에 추가
       if (!uniqueMap.has(uniqueKey)) {
@@ -201,168 +378,1592 @@ export class CodeChunkRepository {
     return Array.from(uniqueMap.values());
   }
 
-  // 프로젝트 ID로 코드 청크 조회
-  async getCodeChunksByProjectId(projectId: string): Promise<CodeChunkDto[]> {
+  /**
+   * 프로젝트의 기존 청크 식별 정보를 조회합니다.
+   * @param projectId 프로젝트 ID
+   * @param paths 조회할 파일 경로 목록 (생략 시 프로젝트 전체)
+   */
+  async getChunkIdentities(
+    projectId: string,
+    paths?: string[]
+  ): Promise<ChunkIdentity[]> {
+    if (paths && paths.length === 0) {
+      return [];
+    }
+
     try {
-      const dbChunks = await this.db
-        .select()
+      return await this.db
+        .select({
+          id: codeChunks.id,
+          path: codeChunks.path,
+          type: codeChunks.type,
+          symbol: codeChunks.symbol,
+        })
         .from(codeChunks)
-        .where(eq(codeChunks.projectId, projectId));
+        .where(
+          and(
+            eq(codeChunks.projectId, projectId),
+            paths ? inArray(codeChunks.path, paths) : undefined
+          )
+        );
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 청크 식별 정보 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
 
-      // 데이터베이스 청크를 서비스 객체로 변환
-      const chunks: CodeChunkDto[] = dbChunks.map((chunk) => ({
-        id: chunk.id,
-        projectId: chunk.projectId,
-        path: chunk.path,
-        code: chunk.code,
-        type: chunk.type,
-        name: chunk.name,
-        lineStart: chunk.lineStart,
-        lineEnd: chunk.lineEnd,
-        dependencies: chunk.dependencies || [],
-        dependents: chunk.dependents || [],
-      }));
+  /**
+   * ID 목록에 해당하는 코드 청크를 삭제합니다.
+   * @returns 삭제된 청크 수
+   */
+  async deleteCodeChunksByIds(chunkIds: string[]): Promise<number> {
+    if (chunkIds.length === 0) {
+      return 0;
+    }
 
-      return chunks;
+    try {
+      const deleted = await this.db
+        .delete(codeChunks)
+        .where(inArray(codeChunks.id, chunkIds))
+        .returning({ id: codeChunks.id });
+
+      return deleted.length;
+    } catch (error) {
+      console.error("코드 청크 삭제 중 오류 발생:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 콘텐츠 해시가 일치하는 기존 임베딩을 조회합니다.
+   * @param projectId 프로젝트 ID
+   * @param contentHashes 조회할 콘텐츠 해시 목록
+   * @returns 콘텐츠 해시 -> 임베딩 맵
+   */
+  async getEmbeddingsByContentHashes(
+    projectId: string,
+    contentHashes: string[]
+  ): Promise<Map<string, number[]>> {
+    const embeddings = new Map<string, number[]>();
+    const uniqueHashes = Array.from(new Set(contentHashes));
+    const lookupBatchSize = 1000;
+
+    try {
+      for (let i = 0; i < uniqueHashes.length; i += lookupBatchSize) {
+        const batch = uniqueHashes.slice(i, i + lookupBatchSize);
+        const rows = await this.db
+          .select({
+            contentHash: codeChunks.contentHash,
+            embedding: codeChunks.embedding,
+          })
+          .from(codeChunks)
+          .where(
+            and(
+              eq(codeChunks.projectId, projectId),
+              inArray(codeChunks.contentHash, batch),
+              sql`${codeChunks.embedding} IS NOT NULL`
+            )
+          );
+
+        for (const row of rows) {
+          if (row.contentHash && row.embedding) {
+            embeddings.set(row.contentHash, row.embedding);
+          }
+        }
+      }
+
+      return embeddings;
     } catch (error) {
       console.error(
-        `프로젝트 ID ${projectId}의 코드 청크 조회 중 오류 발생:`,
+        `프로젝트 ID ${projectId}의 콘텐츠 해시 기반 임베딩 조회 중 오류 발생:`,
         error
       );
       throw error;
     }
   }
 
-  // 프로젝트 ID로 코드 청크 수 조회
-  async getCodeChunksCountByProjectId(projectId: string): Promise<number> {
+  /**
+   * 프로젝트의 심볼 청크 이름 목록 (임베딩 문서의 의존성 이름 확인용)
+   * 하위 청크와 함수 안의 지역 상수(한정 심볼 경로를 가진 상수)는 제외합니다.
+   */
+  async getChunkNames(projectId: string): Promise<string[]> {
     try {
-      const result = await this.db
-        .select({ count: count() })
+      const rows = await this.db
+        .selectDistinct({ name: codeChunks.name })
         .from(codeChunks)
-        .where(eq(codeChunks.projectId, projectId));
+        .where(
+          and(
+            eq(codeChunks.projectId, projectId),
+            isNull(codeChunks.parentSymbol),
+            sql`NOT (${codeChunks.type} = 'constant' AND ${codeChunks.symbol} LIKE '%.%')`
+          )
+        );
+      return rows.map((row) => row.name);
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 청크 이름 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
 
-      return result[0]?.count || 0;
+  /**
+   * 프로젝트 전체 심볼을 기준으로 청크의 의존성과 피의존성을 다시 계산합니다 (증분 분석 후 호출).
+   * - dependencies: 프로젝트에 있는 다른 심볼 이름만 남김 (변경된 파일의 청크는 확인 전 식별자로 저장되고,
+   *   삭제된 심볼을 가리키던 변경되지 않은 청크의 의존성도 정리됨)
+   * - dependents: 다른 청크의 dependencies에서 역으로 계산 (변경되지 않은 청크 포함)
+   * 값이 바뀐 청크만 갱신합니다.
+   */
+  async resolveProjectDependencies(projectId: string): Promise<void> {
+    try {
+      await this.db.transaction(async (tx) => {
+        await tx.execute(
+          sql`UPDATE ${codeChunks} AS target SET "dependencies" = resolved.dependencies, "updated_at" = current_timestamp FROM (SELECT chunk.id, coalesce(jsonb_agg(dep.name ORDER BY dep.ord) FILTER (WHERE known.name IS NOT NULL AND (dep.name <> chunk.name OR known.count > 1)), '[]'::jsonb) AS dependencies FROM ${codeChunks} AS chunk LEFT JOIN LATERAL jsonb_array_elements_text(chunk.dependencies) WITH ORDINALITY AS dep(name, ord) ON true LEFT JOIN (SELECT name, count(*) AS count FROM ${codeChunks} WHERE project_id = ${projectId} AND parent_symbol IS NULL GROUP BY name) AS known ON known.name = dep.name WHERE chunk.project_id = ${projectId} AND chunk.parent_symbol IS NULL GROUP BY chunk.id) AS resolved WHERE target.id = resolved.id AND target.dependencies IS DISTINCT FROM resolved.dependencies`
+        );
+        await tx.execute(
+          sql`UPDATE ${codeChunks} AS target SET "dependents" = derived.dependents, "updated_at" = current_timestamp FROM (SELECT chunk.id, coalesce(jsonb_agg(DISTINCT edge.source_name ORDER BY edge.source_name) FILTER (WHERE edge.source_id IS NOT NULL), '[]'::jsonb) AS dependents FROM ${codeChunks} AS chunk LEFT JOIN (SELECT source.id AS source_id, source.name AS source_name, dep.name AS target_name FROM ${codeChunks} AS source CROSS JOIN LATERAL jsonb_array_elements_text(source.dependencies) AS dep(name) WHERE source.project_id = ${projectId} AND source.parent_symbol IS NULL) AS edge ON edge.target_name = chunk.name AND edge.source_id <> chunk.id WHERE chunk.project_id = ${projectId} AND chunk.parent_symbol IS NULL GROUP BY chunk.id) AS derived WHERE target.id = derived.id AND target.dependents IS DISTINCT FROM derived.dependents`
+        );
+      });
     } catch (error) {
       console.error(
-        `프로젝트 ID ${projectId}의 코드 청크 수 조회 중 오류 발생:`,
+        `프로젝트 ID ${projectId}의 의존성 재계산 중 오류 발생:`,
         error
       );
       throw error;
     }
   }
 
-  // 프로젝트 ID와 코드 청크 유형으로 코드 청크 조회
-  async getCodeChunksByType(
-    projectId: string,
-    type: "function" | "class" | "type"
-  ): Promise<CodeChunkDto[]> {
+  // 임베딩에 실패해 pending 상태인 청크 조회
+  async getPendingEmbeddingChunks(
+    projectId: string
+  ): Promise<EmbeddingSourceChunk[]> {
     try {
-      const dbChunks = await this.db
-        .select()
+      return await this.db
+        .select({
+          id: codeChunks.id,
+          path: codeChunks.path,
+          code: codeChunks.code,
+          embeddingText: codeChunks.embeddingText,
+        })
         .from(codeChunks)
         .where(
-          and(eq(codeChunks.projectId, projectId), eq(codeChunks.type, type))
+          and(
+            eq(codeChunks.projectId, projectId),
+            eq(codeChunks.embeddingStatus, "pending")
+          )
         );
-
-      // 데이터베이스 청크를 서비스 객체로 변환
-      const chunks: CodeChunkDto[] = dbChunks.map((chunk) => ({
-        id: chunk.id,
-        projectId: chunk.projectId,
-        path: chunk.path,
-        code: chunk.code,
-        type: chunk.type,
-        name: chunk.name,
-        lineStart: chunk.lineStart,
-        lineEnd: chunk.lineEnd,
-        dependencies: chunk.dependencies || [],
-        dependents: chunk.dependents || [],
-      }));
-
-      return chunks;
     } catch (error) {
       console.error(
-        `프로젝트 ID ${projectId}의 ${type} 유형 코드 청크 조회 중 오류 발생:`,
+        `프로젝트 ID ${projectId}의 pending 청크 조회 중 오류 발생:`,
         error
       );
       throw error;
     }
   }
 
-  // 단일 코드 청크 조회
-  async getCodeChunk(chunkId: string) {
-    const result = await this.db
-      .select()
-      .from(codeChunks)
-      .where(eq(codeChunks.id, chunkId));
+  /**
+   * 청크별 임베딩과 상태를 갱신합니다.
+   * 임베딩이 있으면 embedded, 없고 오류가 있으면 pending, 둘 다 없으면 skipped로 저장합니다.
+   */
+  async updateChunkEmbeddings(
+    rows: { id: string; embedding: number[] | null; error: string | null }[]
+  ): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
 
-    return result[0] || null;
+    const updateBatchSize = 1000;
+
+    try {
+      for (let i = 0; i < rows.length; i += updateBatchSize) {
+        const values = sql.join(
+          rows
+            .slice(i, i + updateBatchSize)
+            .map(
+              (row) =>
+                sql`(${row.id}::uuid, ${
+                  row.embedding ? JSON.stringify(row.embedding) : null
+                }::vector, ${row.error}::text)`
+            ),
+          sql`, `
+        );
+        await this.db.execute(
+          sql`UPDATE ${codeChunks} SET "embedding" = updated.embedding, "embedding_status" = CASE WHEN updated.embedding IS NOT NULL THEN 'embedded' WHEN updated.error IS NOT NULL THEN 'pending' ELSE 'skipped' END, "embedding_error" = updated.error, "updated_at" = current_timestamp FROM (VALUES ${values}) AS updated(id, embedding, error) WHERE ${codeChunks.id} = updated.id`
+        );
+      }
+    } catch (error) {
+      console.error("청크 임베딩 갱신 중 오류 발생:", error);
+      throw error;
+    }
   }
 
-  // 임베딩을 사용한 코드 청크 유사도 검색 (코사인 유사도 사용)
-  async searchCodeChunksByCosine(
+  /**
+   * 재임베딩을 시작합니다.
+   * 진행 중인 스테이징의 대상 모델이 다르면 스테이징 임베딩을 비우고 새 대상으로 기록하며,
+   * 같으면 이전 진행 상황을 이어갑니다.
+   * @returns 이전 진행 상황을 이어가는지 여부
+   */
+  async beginStagingEmbeddings(
     projectId: string,
-    embedding: number[],
-    limit: number = 10,
-    threshold: number = 0.3
-  ): Promise<CodeChunkDto[]> {
+    target: EmbeddingModelInfo
+  ): Promise<boolean> {
     try {
-      // 코사인 유사도 계산
-      const similarity = sql<number>`1 - (${cosineDistance(
-        codeChunks.embedding,
-        embedding
-      )})`;
+      return await this.db.transaction(async (tx) => {
+        const [project] = await tx
+          .select({
+            stagingEmbeddingModel: projects.stagingEmbeddingModel,
+            stagingEmbeddingDimensions: projects.stagingEmbeddingDimensions,
+          })
+          .from(projects)
+          .where(eq(projects.id, projectId))
+          .for("update");
 
-      // ORM 방식으로 쿼리 작성
-      const results = await this.db
+        if (
+          project?.stagingEmbeddingModel === target.model &&
+          project?.stagingEmbeddingDimensions === target.dimensions
+        ) {
+          return true;
+        }
+
+        await tx
+          .update(codeChunks)
+          .set({ stagingEmbedding: null })
+          .where(eq(codeChunks.projectId, projectId));
+        await tx
+          .update(projects)
+          .set({
+            stagingEmbeddingModel: target.model,
+            stagingEmbeddingDimensions: target.dimensions,
+            updatedAt: new Date(),
+          })
+          .where(eq(projects.id, projectId));
+        return false;
+      });
+    } catch (error) {
+      console.error(
+        `프로젝트 ${projectId}의 재임베딩 시작 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 스테이징 임베딩이 없는 청크를 ID 순으로 조회합니다.
+   * 임베딩하지 않는 청크(skipped: 빈 텍스트, 하위 청크로 분할된 원본 청크)는 제외합니다.
+   * @param afterId 이 ID 이후의 청크부터 조회 (페이지 커서)
+   */
+  async getChunksWithoutStagingEmbedding(
+    projectId: string,
+    limit: number,
+    afterId?: string
+  ): Promise<EmbeddingSourceChunk[]> {
+    try {
+      return await this.db
         .select({
           id: codeChunks.id,
-          projectId: codeChunks.projectId,
           path: codeChunks.path,
           code: codeChunks.code,
-          type: codeChunks.type,
-          name: codeChunks.name,
-          lineStart: codeChunks.lineStart,
-          lineEnd: codeChunks.lineEnd,
-          dependencies: codeChunks.dependencies,
-          dependents: codeChunks.dependents,
-          similarity: similarity,
+          embeddingText: codeChunks.embeddingText,
         })
         .from(codeChunks)
         .where(
           and(
             eq(codeChunks.projectId, projectId),
-            sql`${codeChunks.embedding} IS NOT NULL`,
-            gt(similarity, threshold)
+            sql`${codeChunks.stagingEmbedding} IS NULL`,
+            ne(codeChunks.embeddingStatus, "skipped"),
+            afterId ? gt(codeChunks.id, afterId) : undefined
           )
         )
-        .orderBy(desc(similarity))
+        .orderBy(asc(codeChunks.id))
         .limit(limit);
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 재임베딩 대상 청크 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
 
-      // 조회 결과를 DTO로 변환 (이미 적절한 속성 이름으로 선택됨)
-      const chunks: CodeChunkDto[] = results.map((chunk) => ({
-        id: chunk.id,
-        projectId: chunk.projectId,
-        path: chunk.path,
-        code: chunk.code,
-        type: chunk.type,
-        name: chunk.name,
-        lineStart: chunk.lineStart,
-        lineEnd: chunk.lineEnd,
-        dependencies: chunk.dependencies || [],
-        dependents: chunk.dependents || [],
-        similarity: chunk.similarity,
-      }));
+  // 청크별 스테이징 임베딩 저장
+  async saveStagingEmbeddings(
+    rows: { id: string; embedding: number[] }[]
+  ): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
 
-      return chunks;
+    try {
+      const values = sql.join(
+        rows.map(
+          (row) =>
+            sql`(${row.id}::uuid, ${JSON.stringify(row.embedding)}::vector)`
+        ),
+        sql`, `
+      );
+      await this.db.execute(
+        sql`UPDATE ${codeChunks} SET "staging_embedding" = staged.embedding FROM (VALUES ${values}) AS staged(id, embedding) WHERE ${codeChunks.id} = staged.id`
+      );
+    } catch (error) {
+      console.error("스테이징 임베딩 저장 중 오류 발생:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 스테이징 임베딩을 현재 임베딩으로 교체하고 프로젝트의 임베딩 모델 정보를 갱신합니다.
+   * 하나의 트랜잭션으로 처리하므로 검색은 교체 전후 중 한 상태만 보게 됩니다.
+   * 프로젝트의 벡터 인덱스는 교체와 함께 삭제됩니다.
+   * @returns 교체된 청크 수
+   */
+  async swapStagingEmbeddings(
+    projectId: string,
+    target: EmbeddingModelInfo
+  ): Promise<number> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const swapped = await tx
+          .update(codeChunks)
+          .set({
+            embedding: sql`${codeChunks.stagingEmbedding}`,
+            embeddingStatus: sql`CASE WHEN ${codeChunks.stagingEmbedding} IS NULL THEN 'skipped' ELSE 'embedded' END`,
+            embeddingError: null,
+            stagingEmbedding: null,
+            updatedAt: new Date(),
+          })
+          .where(eq(codeChunks.projectId, projectId))
+          .returning({ id: codeChunks.id });
+
+        // 벡터 인덱스는 이전 차원으로 캐스팅하므로 교체와 함께 삭제 (호출자가 재생성)
+        for (const index of await this.getVectorIndexes(projectId)) {
+          await tx.execute(
+            sql`DROP INDEX IF EXISTS ${sql.identifier(index.name)}`
+          );
+        }
+
+        await tx
+          .update(projects)
+          .set({
+            embeddingProvider: target.provider,
+            embeddingModel: target.model,
+            embeddingDimensions: target.dimensions,
+            stagingEmbeddingModel: null,
+            stagingEmbeddingDimensions: null,
+            updatedAt: new Date(),
+          })
+          .where(eq(projects.id, projectId));
+
+        return swapped.length;
+      });
     } catch (error) {
       console.error(
-        `프로젝트 ID ${projectId}의 코사인 유사도 기반 코드 청크 검색 중 오류 발생:`,
+        `프로젝트 ${projectId}의 임베딩 교체 중 오류 발생:`,
         error
       );
       throw error;
     }
   }
 
+  /**
+   * 관리 대상 벡터 인덱스(chunk_embedding_*)를 조회합니다.
+   * @param projectId 생략하면 모든 프로젝트의 인덱스를 조회
+   */
+  async getVectorIndexes(projectId?: string): Promise<VectorIndexInfo[]> {
+    try {
+      const result = await this.db.execute<{
+        name: string;
+        definition: string;
+        size: string;
+        valid: boolean;
+      }>(
+        sql`SELECT i.indexname AS name, i.indexdef AS definition, pg_relation_size(c.oid) AS size, x.indisvalid AS valid FROM pg_indexes i JOIN pg_class c ON c.relname = i.indexname AND c.relnamespace = to_regnamespace(i.schemaname) JOIN pg_index x ON x.indexrelid = c.oid WHERE i.tablename = 'code_chunks' AND i.indexname LIKE ${`${VECTOR_INDEX_PREFIX}%`}`
+      );
+
+      return result.rows
+        .map((row) =>
+          parseVectorIndexDefinition(
+            row.name,
+            row.definition,
+            Number(row.size),
+            row.valid
+          )
+        )
+        .filter(
+          (index): index is VectorIndexInfo =>
+            index !== null &&
+            (!projectId || index.projectKey === toProjectKey(projectId))
+        );
+    } catch (error) {
+      console.error("벡터 인덱스 조회 중 오류 발생:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 프로젝트의 임베딩에 대한 ANN 인덱스를 생성합니다.
+   * 임베딩을 프로젝트 차원으로 캐스팅한 식 위에 프로젝트별 부분 인덱스로 만들며,
+   * 검색을 막지 않도록 CREATE INDEX CONCURRENTLY를 사용합니다.
+   * 새 인덱스를 임시 이름으로 만든 뒤 기존 인덱스(다른 방식 포함)와 교체하므로 재생성 중에도 검색할 수 있습니다.
+   * @param dimensions 프로젝트 임베딩 차원
+   * @returns 생성된 인덱스 정보
+   */
+  async createVectorIndex(
+    projectId: string,
+    dimensions: number,
+    options: VectorIndexOptions
+  ): Promise<VectorIndexInfo> {
+    // 부분 인덱스 조건에는 리터럴이 필요하므로 UUID 형식만 허용
+    if (!UUID_PATTERN.test(projectId)) {
+      throw new Error(`잘못된 프로젝트 ID입니다: ${projectId}`);
+    }
+
+    const name = getVectorIndexName(projectId, options.method);
+    const tempName = `${name}_new`;
+
+    try {
+      const rows = await this.getEmbeddedChunkCount(projectId);
+      const parameters = buildIndexParameters(options, rows);
+      const withClause = Object.entries(parameters)
+        .map(([key, value]) => `${key} = ${Math.trunc(value)}`)
+        .join(", ");
+
+      // 이전에 실패한 생성 작업이 남긴 임시 인덱스 정리
+      await this.db.execute(
+        sql`DROP INDEX CONCURRENTLY IF EXISTS ${sql.identifier(tempName)}`
+      );
+      await this.db.execute(
+        sql`CREATE INDEX CONCURRENTLY ${sql.identifier(tempName)} ON ${codeChunks} USING ${sql.raw(options.method)} (${embeddingExpression(sql.identifier("embedding"), dimensions)} ${sql.raw(vectorOperatorClass(dimensions))}) WITH (${sql.raw(withClause)}) WHERE "project_id" = ${sql.raw(`'${projectId}'`)} AND "embedding" IS NOT NULL`
+      );
+
+      const existing = await this.getVectorIndexes(projectId);
+      await this.db.transaction(async (tx) => {
+        for (const index of existing) {
+          await tx.execute(
+            sql`DROP INDEX IF EXISTS ${sql.identifier(index.name)}`
+          );
+        }
+        await tx.execute(
+          sql`ALTER INDEX ${sql.identifier(tempName)} RENAME TO ${sql.identifier(name)}`
+        );
+      });
+
+      const created = (await this.getVectorIndexes(projectId)).find(
+        (index) => index.name === name
+      );
+      if (!created) {
+        throw new Error(`생성된 벡터 인덱스를 찾을 수 없습니다: ${name}`);
+      }
+      return created;
+    } catch (error) {
+      console.error(
+        `프로젝트 ${projectId}의 벡터 인덱스 생성 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 프로젝트의 벡터 인덱스를 모두 삭제합니다.
+   * @returns 삭제된 인덱스 수
+   */
+  async dropVectorIndexes(projectId: string): Promise<number> {
+    try {
+      const indexes = await this.getVectorIndexes(projectId);
+      for (const index of indexes) {
+        await this.db.execute(
+          sql`DROP INDEX CONCURRENTLY IF EXISTS ${sql.identifier(index.name)}`
+        );
+      }
+      return indexes.length;
+    } catch (error) {
+      console.error(
+        `프로젝트 ${projectId}의 벡터 인덱스 삭제 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  // 프로젝트의 파일/청크 수와 임베딩 상태별 청크 수 조회
+  async getProjectChunkStats(projectId: string): Promise<ProjectChunkStats> {
+    try {
+      const rows = await this.db
+        .select({
+          status: codeChunks.embeddingStatus,
+          chunks: count(),
+          staged: count(codeChunks.stagingEmbedding),
+        })
+        .from(codeChunks)
+        .where(eq(codeChunks.projectId, projectId))
+        .groupBy(codeChunks.embeddingStatus);
+      const [files] = await this.db
+        .select({ count: sql<number>`count(distinct ${codeChunks.path})::int` })
+        .from(codeChunks)
+        .where(eq(codeChunks.projectId, projectId));
+
+      const stats: ProjectChunkStats = {
+        files: files?.count || 0,
+        chunks: 0,
+        embeddingStatus: { embedded: 0, pending: 0, skipped: 0 },
+        stagedEmbeddings: 0,
+      };
+      for (const row of rows) {
+        stats.chunks += row.chunks;
+        stats.embeddingStatus[row.status] = row.chunks;
+        stats.stagedEmbeddings += row.staged;
+      }
+      return stats;
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 청크 통계 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  // 임베딩이 있는 청크 수 조회 (IVFFlat 클러스터 수 계산, 인덱스 상태 표시용)
+  async getEmbeddedChunkCount(projectId: string): Promise<number> {
+    try {
+      const result = await this.db
+        .select({ count: count() })
+        .from(codeChunks)
+        .where(
+          and(
+            eq(codeChunks.projectId, projectId),
+            sql`${codeChunks.embedding} IS NOT NULL`
+          )
+        );
+
+      return result[0]?.count || 0;
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 임베딩된 청크 수 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  // 프로젝트 ID로 코드 청크 조회
+  async getCodeChunksByProjectId(projectId: string): Promise<CodeChunkDto[]> {
+    try {
+      const dbChunks = await this.db
+        .select()
+        .from(codeChunks)
+        .where(
+          and(
+            eq(codeChunks.projectId, projectId),
+            isNull(codeChunks.parentSymbol)
+          )
+        );
+
+      // 데이터베이스 청크를 서비스 객체로 변환
+      const chunks: CodeChunkDto[] = dbChunks.map((chunk) => ({
+        id: chunk.id,
+        projectId: chunk.projectId,
+        path: chunk.path,
+        code: chunk.code,
+        type: chunk.type,
+        name: chunk.name,
+        symbol: chunk.symbol,
+        lineStart: chunk.lineStart,
+        lineEnd: chunk.lineEnd,
+        dependencies: chunk.dependencies || [],
+        dependents: chunk.dependents || [],
+        parentName: chunk.parentName,
+      }));
+
+      return chunks;
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 코드 청크 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  // 프로젝트 ID로 코드 청크 수 조회
+  async getCodeChunksCountByProjectId(projectId: string): Promise<number> {
+    try {
+      const result = await this.db
+        .select({ count: count() })
+        .from(codeChunks)
+        .where(eq(codeChunks.projectId, projectId));
+
+      return result[0]?.count || 0;
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 코드 청크 수 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  // 프로젝트 ID와 코드 청크 유형으로 코드 청크 조회
+  async getCodeChunksByType(
+    projectId: string,
+    type: CodeChunkType
+  ): Promise<CodeChunkDto[]> {
+    try {
+      const dbChunks = await this.db
+        .select()
+        .from(codeChunks)
+        .where(
+          and(
+            eq(codeChunks.projectId, projectId),
+            eq(codeChunks.type, type),
+            isNull(codeChunks.parentSymbol)
+          )
+        );
+
+      // 데이터베이스 청크를 서비스 객체로 변환
+      const chunks: CodeChunkDto[] = dbChunks.map((chunk) => ({
+        id: chunk.id,
+        projectId: chunk.projectId,
+        path: chunk.path,
+        code: chunk.code,
+        type: chunk.type,
+        name: chunk.name,
+        symbol: chunk.symbol,
+        lineStart: chunk.lineStart,
+        lineEnd: chunk.lineEnd,
+        dependencies: chunk.dependencies || [],
+        dependents: chunk.dependents || [],
+        parentName: chunk.parentName,
+      }));
+
+      return chunks;
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 ${type} 유형 코드 청크 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  // 단일 코드 청크 조회
+  async getCodeChunk(chunkId: string) {
+    const result = await this.db
+      .select()
+      .from(codeChunks)
+      .where(eq(codeChunks.id, chunkId));
+
+    return result[0] || null;
+  }
+
+  // 청크의 저장된 임베딩 조회 (임베딩이 없으면 null)
+  async getChunkEmbedding(chunkId: string): Promise<number[] | null> {
+    try {
+      const result = await this.db
+        .select({ embedding: codeChunks.embedding })
+        .from(codeChunks)
+        .where(eq(codeChunks.id, chunkId));
+
+      return result[0]?.embedding || null;
+    } catch (error) {
+      console.error(`청크 ${chunkId}의 임베딩 조회 중 오류 발생:`, error);
+      throw error;
+    }
+  }
+
+  // 파일 경로와 줄 범위가 정확히 일치하는 코드 청크 조회 (하위 청크 제외)
+  async findCodeChunkByRange(
+    projectId: string,
+    path: string,
+    lineStart: number,
+    lineEnd: number
+  ): Promise<CodeChunkDto | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(codeChunks)
+        .where(
+          and(
+            eq(codeChunks.projectId, projectId),
+            eq(codeChunks.path, path),
+            eq(codeChunks.lineStart, lineStart),
+            eq(codeChunks.lineEnd, lineEnd),
+            isNull(codeChunks.parentSymbol)
+          )
+        )
+        .limit(1);
+
+      return result[0] ? this.toDto(result[0]) : null;
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 ${path}:${lineStart}-${lineEnd} 청크 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 청크 ID, 한정 심볼 경로 또는 이름으로 코드 청크를 조회합니다.
+   * 같은 이름의 심볼이 여러 파일에 있으면 모두 반환합니다.
+   */
+  async findCodeChunksBySymbol(
+    projectId: string,
+    symbolOrId: string
+  ): Promise<CodeChunkDto[]> {
+    try {
+      const matchers = [
+        eq(codeChunks.symbol, symbolOrId),
+        eq(codeChunks.name, symbolOrId),
+      ];
+      if (UUID_PATTERN.test(symbolOrId)) {
+        matchers.push(eq(codeChunks.id, symbolOrId));
+      }
+
+      const dbChunks = await this.db
+        .select()
+        .from(codeChunks)
+        .where(
+          and(
+            eq(codeChunks.projectId, projectId),
+            isNull(codeChunks.parentSymbol),
+            or(...matchers)
+          )
+        )
+        .orderBy(asc(codeChunks.path), asc(codeChunks.lineStart));
+
+      return dbChunks.map((chunk) => this.toDto(chunk));
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 심볼 ${symbolOrId} 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  // 이름 또는 한정 심볼 경로 목록에 해당하는 코드 청크 조회 (의존성 그래프 탐색용)
+  async getCodeChunksByNames(
+    projectId: string,
+    names: string[]
+  ): Promise<CodeChunkDto[]> {
+    if (names.length === 0) {
+      return [];
+    }
+
+    try {
+      const dbChunks = await this.db
+        .select()
+        .from(codeChunks)
+        .where(
+          and(
+            eq(codeChunks.projectId, projectId),
+            isNull(codeChunks.parentSymbol),
+            or(
+              inArray(codeChunks.name, names),
+              inArray(codeChunks.symbol, names)
+            )
+          )
+        )
+        .orderBy(asc(codeChunks.path), asc(codeChunks.lineStart));
+
+      return dbChunks.map((chunk) => this.toDto(chunk));
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 이름 기반 코드 청크 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 의존성 목록에 주어진 이름 중 하나라도 포함한 코드 청크 조회 (피의존성 탐색용)
+   * 청크에 저장된 dependents 목록은 증분 분석 시 갱신되지 않은 청크에서 오래될 수 있으므로
+   * 의존하는 쪽 청크의 dependencies에서 직접 찾습니다.
+   */
+  async getDependentChunks(
+    projectId: string,
+    names: string[]
+  ): Promise<CodeChunkDto[]> {
+    if (names.length === 0) {
+      return [];
+    }
+
+    try {
+      const dbChunks = await this.db
+        .select()
+        .from(codeChunks)
+        .where(
+          and(
+            eq(codeChunks.projectId, projectId),
+            isNull(codeChunks.parentSymbol),
+            sql`${codeChunks.dependencies} ?| array[${sql.join(
+              names.map((name) => sql`${name}`),
+              sql`, `
+            )}]::text[]`
+          )
+        )
+        .orderBy(asc(codeChunks.path), asc(codeChunks.lineStart));
+
+      return dbChunks.map((chunk) => this.toDto(chunk));
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 피의존성 청크 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 파일 또는 디렉토리(하위 전체)의 심볼 개요를 조회합니다.
+   * @param targetPath 프로젝트 기준 상대 경로 (빈 문자열이면 프로젝트 전체)
+   */
+  async getChunkOutline(
+    projectId: string,
+    targetPath: string
+  ): Promise<ChunkOutlineEntry[]> {
+    const normalized = targetPath
+      .trim()
+      .replace(/^\.(\/|$)/, "")
+      .replace(/\/+$/, "");
+    // LIKE 와일드카드 문자 이스케이프
+    const escaped = normalized.replace(/[\\%_]/g, "\\$&");
+
+    try {
+      return await this.db
+        .select(this.outlineColumns())
+        .from(codeChunks)
+        .where(
+          and(
+            eq(codeChunks.projectId, projectId),
+            isNull(codeChunks.parentSymbol),
+            normalized
+              ? or(
+                  eq(codeChunks.path, normalized),
+                  like(codeChunks.path, `${escaped}/%`)
+                )
+              : undefined
+          )
+        )
+        .orderBy(asc(codeChunks.path), asc(codeChunks.lineStart));
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 ${targetPath} 개요 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 프로젝트의 심볼 개요를 ID 순서로 한 페이지씩 조회합니다 (리소스 목록용).
+   * @param afterId 이전 페이지의 마지막 청크 ID (생략 시 처음부터)
+   */
+  async getChunkOutlinePage(
+    projectId: string,
+    limit: number,
+    afterId?: string
+  ): Promise<ChunkOutlineEntry[]> {
+    try {
+      return await this.db
+        .select(this.outlineColumns())
+        .from(codeChunks)
+        .where(
+          and(
+            eq(codeChunks.projectId, projectId),
+            isNull(codeChunks.parentSymbol),
+            afterId ? gt(codeChunks.id, afterId) : undefined
+          )
+        )
+        .orderBy(asc(codeChunks.id))
+        .limit(limit);
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 개요 페이지 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 청크가 있는 파일 경로를 경로 순서로 한 페이지씩 조회합니다 (Git 저장소가 아닌 프로젝트의 리소스 목록용).
+   */
+  async getChunkPaths(
+    projectId: string,
+    offset: number,
+    limit: number
+  ): Promise<string[]> {
+    try {
+      const rows = await this.db
+        .selectDistinct({ path: codeChunks.path })
+        .from(codeChunks)
+        .where(eq(codeChunks.projectId, projectId))
+        .orderBy(asc(codeChunks.path))
+        .offset(offset)
+        .limit(limit);
+      return rows.map((row) => row.path);
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 파일 경로 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  // 개요 항목 컬럼 (코드와 임베딩 제외)
+  private outlineColumns() {
+    return {
+      id: codeChunks.id,
+      path: codeChunks.path,
+      type: codeChunks.type,
+      name: codeChunks.name,
+      symbol: codeChunks.symbol,
+      parentName: codeChunks.parentName,
+      lineStart: codeChunks.lineStart,
+      lineEnd: codeChunks.lineEnd,
+      dependencyCount: sql<number>`coalesce(jsonb_array_length(${codeChunks.dependencies}), 0)::int`,
+      dependentCount: sql<number>`coalesce(jsonb_array_length(${codeChunks.dependents}), 0)::int`,
+    };
+  }
+
+  // 데이터베이스 청크를 서비스 객체로 변환
+  private toDto(chunk: CodeChunkRow): CodeChunkDto {
+    return {
+      id: chunk.id,
+      projectId: chunk.projectId,
+      path: chunk.path,
+      code: chunk.code,
+      type: chunk.type,
+      name: chunk.name,
+      symbol: chunk.symbol,
+      lineStart: chunk.lineStart,
+      lineEnd: chunk.lineEnd,
+      dependencies: chunk.dependencies || [],
+      dependents: chunk.dependents || [],
+      parentName: chunk.parentName,
+      parentSymbol: chunk.parentSymbol,
+      contentHash: chunk.contentHash,
+      embeddingStatus: chunk.embeddingStatus,
+    };
+  }
+
+  /**
+   * 임베딩을 사용한 코드 청크 유사도 검색 (코사인 유사도 사용)
+   * 하위 청크로 일치한 결과는 원본 청크로 합쳐 가장 높은 유사도로 반환하며,
+   * 합친 결과가 limit보다 적으면 조건에 맞는 후보가 더 없을 때까지 후보 수를 늘려 다시 조회합니다.
+   * 프로젝트에 유효한 벡터 인덱스가 있으면 인덱스 식으로 정렬해 ANN 검색을 사용하고,
+   * tuning(없으면 VECTOR_EF_SEARCH/VECTOR_PROBES 환경 변수)으로 검색 파라미터를 트랜잭션 범위에서 설정합니다.
+   */
+  async searchCodeChunksByCosine(
+    projectId: string,
+    embedding: number[],
+    limit: number = 10,
+    threshold: number = 0.3,
+    filters?: ChunkSearchFilters,
+    tuning?: VectorSearchTuning
+  ): Promise<ScoredCodeChunk[]> {
+    try {
+      const index = await this.findUsableVectorIndex(
+        projectId,
+        embedding.length
+      );
+      const filterConditions = this.buildFilterConditions(filters);
+
+      // 코사인 거리 계산 (인덱스가 있으면 인덱스와 같은 캐스팅 식 사용)
+      const distance = index
+        ? sql<number>`${embeddingExpression(
+            codeChunks.embedding,
+            embedding.length
+          )} <=> ${JSON.stringify(embedding)}::${sql.raw(
+            vectorTypeName(embedding.length)
+          )}`
+        : sql<number>`${cosineDistance(codeChunks.embedding, embedding)}`;
+      const similarity = sql<number>`1 - (${distance})`;
+
+      const search = (executor: VectorQueryExecutor, fetchLimit: number) =>
+        executor
+          .select({
+            id: codeChunks.id,
+            projectId: codeChunks.projectId,
+            path: codeChunks.path,
+            code: codeChunks.code,
+            type: codeChunks.type,
+            name: codeChunks.name,
+            symbol: codeChunks.symbol,
+            lineStart: codeChunks.lineStart,
+            lineEnd: codeChunks.lineEnd,
+            dependencies: codeChunks.dependencies,
+            dependents: codeChunks.dependents,
+            parentName: codeChunks.parentName,
+            parentSymbol: codeChunks.parentSymbol,
+            similarity: similarity,
+          })
+          .from(codeChunks)
+          .where(
+            and(
+              eq(codeChunks.projectId, projectId),
+              sql`${codeChunks.embedding} IS NOT NULL`,
+              sql`${distance} < ${1 - threshold}`,
+              ...filterConditions
+            )
+          )
+          // 인덱스를 사용하려면 거리 식 오름차순으로 정렬해야 함
+          .orderBy(sql`${distance} ASC`)
+          .limit(fetchLimit);
+
+      // 같은 원본 청크의 하위 청크가 합쳐져 limit보다 적게 남으면 후보를 늘려 다시 조회
+      let fetchLimit = limit * SUB_CHUNK_OVERFETCH;
+      while (true) {
+        // IVFFlat 반복 스캔은 순서를 완화하므로 유사도 순으로 다시 정렬
+        const results = (
+          await this.withVectorSearchTuning(
+            index,
+            fetchLimit,
+            tuning,
+            filterConditions.length > 0,
+            (executor) => search(executor, fetchLimit)
+          )
+        ).sort((a, b) => b.similarity - a.similarity);
+
+        // 조회 결과를 DTO로 변환 (이미 적절한 속성 이름으로 선택됨)
+        const chunks: ScoredCodeChunk[] = results.map((chunk) => ({
+          id: chunk.id,
+          projectId: chunk.projectId,
+          path: chunk.path,
+          code: chunk.code,
+          type: chunk.type,
+          name: chunk.name,
+          symbol: chunk.symbol,
+          lineStart: chunk.lineStart,
+          lineEnd: chunk.lineEnd,
+          dependencies: chunk.dependencies || [],
+          dependents: chunk.dependents || [],
+          parentName: chunk.parentName,
+          parentSymbol: chunk.parentSymbol,
+          similarity: chunk.similarity,
+        }));
+
+        const collapsed = await this.collapseSubChunks(projectId, chunks);
+        if (collapsed.length >= limit || results.length < fetchLimit) {
+          return collapsed.slice(0, limit);
+        }
+        fetchLimit *= SUB_CHUNK_OVERFETCH;
+      }
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 코사인 유사도 기반 코드 청크 검색 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  // 값이 지정된 검색 파라미터만 남김 (환경 변수 기본값을 덮어쓰지 않도록)
+  private definedTuning(tuning?: VectorSearchTuning): VectorSearchTuning {
+    return Object.fromEntries(
+      Object.entries(tuning || {}).filter(([, value]) => value !== undefined)
+    );
+  }
+
+  // 검색 차원과 일치하는 프로젝트의 유효한 벡터 인덱스 (없으면 전체 스캔)
+  private async findUsableVectorIndex(
+    projectId: string,
+    dimensions: number
+  ): Promise<VectorIndexInfo | undefined> {
+    return (await this.getVectorIndexes(projectId)).find(
+      (index) => index.valid && index.dimensions === dimensions
+    );
+  }
+
+  // 설치된 pgvector 확장 버전 (설치되지 않았으면 null)
+  private getVectorExtensionVersion(): Promise<string | null> {
+    if (!this.vectorExtensionVersion) {
+      this.vectorExtensionVersion = this.db
+        .execute<{ extversion: string }>(
+          sql`SELECT extversion FROM pg_extension WHERE extname = 'vector'`
+        )
+        .then((result) => result.rows[0]?.extversion ?? null)
+        .catch((error) => {
+          this.vectorExtensionVersion = null;
+          throw error;
+        });
+    }
+    return this.vectorExtensionVersion;
+  }
+
+  /**
+   * 인덱스 검색 파라미터를 트랜잭션 범위로 설정한 채 쿼리를 실행합니다.
+   * 인덱스가 없으면 설정 없이 그대로 실행합니다.
+   * ANN 스캔은 인덱스에서 찾은 후보에 필터를 나중에 적용하므로, 필터가 있으면 결과가 모자라지 않도록
+   * 반복 인덱스 스캔(pgvector 0.8 이상)을 켜고 HNSW 후보 목록을 최대로 늘립니다.
+   * 반복 스캔을 지원하지 않는 IVFFlat은 모든 클러스터를 탐색합니다.
+   * @param fetchLimit 쿼리가 가져올 결과 수 (HNSW 후보 목록이 이보다 작지 않도록 보장)
+   * @param filtered 거리 외의 검색 필터(유형, 경로, 이름)가 있는지 여부
+   */
+  private async withVectorSearchTuning<T>(
+    index: VectorIndexInfo | undefined,
+    fetchLimit: number,
+    tuning: VectorSearchTuning | undefined,
+    filtered: boolean,
+    query: (executor: VectorQueryExecutor) => Promise<T>
+  ): Promise<T> {
+    if (!index) {
+      return await query(this.db);
+    }
+
+    const iterativeScan =
+      filtered && supportsIterativeScan(await this.getVectorExtensionVersion());
+
+    return await this.db.transaction(async (tx) => {
+      const { efSearch, probes } = {
+        ...loadSearchTuning(),
+        ...this.definedTuning(tuning),
+      };
+      if (index.method === "hnsw") {
+        const value = filtered
+          ? MAX_EF_SEARCH
+          : Math.min(
+              Math.max(efSearch ?? DEFAULT_EF_SEARCH, fetchLimit),
+              MAX_EF_SEARCH
+            );
+        await tx.execute(
+          sql`SELECT set_config('hnsw.ef_search', ${String(value)}, true)`
+        );
+        if (iterativeScan) {
+          await tx.execute(
+            sql`SELECT set_config('hnsw.iterative_scan', 'strict_order', true)`
+          );
+        }
+      } else {
+        // 반복 스캔이 없으면 모든 클러스터를 탐색 (필터 조건에 대해 정확한 검색)
+        const value =
+          filtered && !iterativeScan
+            ? Math.max(index.parameters.lists ?? 1, probes ?? 1)
+            : probes;
+        if (value) {
+          await tx.execute(
+            sql`SELECT set_config('ivfflat.probes', ${String(value)}, true)`
+          );
+        }
+        if (iterativeScan) {
+          await tx.execute(
+            sql`SELECT set_config('ivfflat.iterative_scan', 'relaxed_order', true)`
+          );
+        }
+      }
+      return await query(tx);
+    });
+  }
+
+  /**
+   * 공백을 정규화한 코드의 해시가 같은 청크를 조회합니다 (정확한 중복).
+   * 하위 청크는 제외하며 같은 해시끼리 연속되도록 정렬합니다.
+   * @param minLines 이보다 짧은 청크는 제외
+   */
+  async findExactDuplicateChunks(
+    projectId: string,
+    minLines: number
+  ): Promise<(ChunkLocation & { hash: string })[]> {
+    try {
+      const hash = sql<string>`md5(btrim(regexp_replace(${codeChunks.code}, '\\s+', ' ', 'g')))`;
+      const candidates = this.db
+        .select({
+          id: codeChunks.id,
+          path: codeChunks.path,
+          type: codeChunks.type,
+          symbol: codeChunks.symbol,
+          lineStart: codeChunks.lineStart,
+          lineEnd: codeChunks.lineEnd,
+          hash: hash.as("hash"),
+          copies: sql<number>`count(*) over (partition by ${hash})`.as(
+            "copies"
+          ),
+        })
+        .from(codeChunks)
+        .where(
+          and(
+            eq(codeChunks.projectId, projectId),
+            isNull(codeChunks.parentSymbol),
+            sql`${codeChunks.lineEnd} - ${codeChunks.lineStart} + 1 >= ${minLines}`
+          )
+        )
+        .as("candidates");
+
+      return await this.db
+        .select({
+          id: candidates.id,
+          path: candidates.path,
+          type: candidates.type,
+          symbol: candidates.symbol,
+          lineStart: candidates.lineStart,
+          lineEnd: candidates.lineEnd,
+          hash: candidates.hash,
+        })
+        .from(candidates)
+        .where(sql`${candidates.copies} > 1`)
+        .orderBy(
+          asc(candidates.hash),
+          asc(candidates.path),
+          asc(candidates.lineStart)
+        );
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 정확한 중복 청크 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 청크마다 임베딩이 가장 가까운 청크를 찾아 유사도가 임계값 이상인 쌍을 반환합니다.
+   * 같은 파일에서 줄 범위가 겹치는 청크(클래스와 그 메서드 등)와 하위 청크는 제외하며,
+   * 프로젝트에 벡터 인덱스가 있으면 청크마다 ANN 검색을 사용합니다.
+   * 쌍은 양방향으로 한 번씩 나올 수 있습니다.
+   * @param dimensions 프로젝트 임베딩 차원
+   * @param neighbors 청크마다 확인할 최근접 청크 수
+   * @param minLines 이보다 짧은 청크는 제외
+   */
+  async findSimilarChunkPairs(
+    projectId: string,
+    dimensions: number,
+    threshold: number,
+    neighbors: number,
+    minLines: number,
+    tuning?: VectorSearchTuning
+  ): Promise<SimilarChunkPair[]> {
+    try {
+      const index = await this.findUsableVectorIndex(projectId, dimensions);
+      const column = (table: string) => sql.raw(`"${table}"."embedding"`);
+      const distance = index
+        ? sql`${embeddingExpression(column("other"), dimensions)} <=> ${embeddingExpression(column("source"), dimensions)}`
+        : sql`${column("other")} <=> ${column("source")}`;
+
+      const result = await this.withVectorSearchTuning(
+        index,
+        neighbors,
+        tuning,
+        false,
+        (executor) =>
+          executor.execute<{
+            source_id: string;
+            source_path: string;
+            source_type: CodeChunkType;
+            source_symbol: string;
+            source_line_start: number;
+            source_line_end: number;
+            target_id: string;
+            target_path: string;
+            target_type: CodeChunkType;
+            target_symbol: string;
+            target_line_start: number;
+            target_line_end: number;
+            similarity: number;
+          }>(
+            sql`SELECT source.id AS source_id, source.path AS source_path, source.type AS source_type, source.symbol AS source_symbol, source.line_start AS source_line_start, source.line_end AS source_line_end, neighbor.id AS target_id, neighbor.path AS target_path, neighbor.type AS target_type, neighbor.symbol AS target_symbol, neighbor.line_start AS target_line_start, neighbor.line_end AS target_line_end, 1 - neighbor.distance AS similarity
+            FROM ${codeChunks} AS source
+            CROSS JOIN LATERAL (
+              SELECT other.id, other.path, other.type, other.symbol, other.line_start, other.line_end, ${distance} AS distance
+              FROM ${codeChunks} AS other
+              WHERE other.project_id = ${projectId} AND other.embedding IS NOT NULL AND other.parent_symbol IS NULL
+                AND other.id <> source.id
+                AND other.line_end - other.line_start + 1 >= ${minLines}
+                AND NOT (other.path = source.path AND other.line_start <= source.line_end AND other.line_end >= source.line_start)
+              ORDER BY ${distance} ASC
+              LIMIT ${neighbors}
+            ) AS neighbor
+            WHERE source.project_id = ${projectId} AND source.embedding IS NOT NULL AND source.parent_symbol IS NULL
+              AND source.line_end - source.line_start + 1 >= ${minLines}
+              AND neighbor.distance < ${1 - threshold}`
+          )
+      );
+
+      return result.rows.map((row) => ({
+        source: {
+          id: row.source_id,
+          path: row.source_path,
+          type: row.source_type,
+          symbol: row.source_symbol,
+          lineStart: row.source_line_start,
+          lineEnd: row.source_line_end,
+        },
+        target: {
+          id: row.target_id,
+          path: row.target_path,
+          type: row.target_type,
+          symbol: row.target_symbol,
+          lineStart: row.target_line_start,
+          lineEnd: row.target_line_end,
+        },
+        similarity: Number(row.similarity),
+      }));
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 유사 청크 쌍 조회 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 순위가 매겨진 검색 결과에서 하위 청크를 원본 청크로 합칩니다.
+   * 같은 원본 청크의 결과는 가장 먼저(높은 순위로) 나온 것만 남기고,
+   * 일치한 하위 청크의 줄 범위는 matchedLines로 보존합니다.
+   */
+  private async collapseSubChunks(
+    projectId: string,
+    rankedChunks: ScoredCodeChunk[]
+  ): Promise<ScoredCodeChunk[]> {
+    const symbolKey = (path: string, type: string, symbol: string) =>
+      `${path}:${type}:${symbol}`;
+
+    const seen = new Set<string>();
+    const collapsed = rankedChunks.filter((chunk) => {
+      const key = symbolKey(
+        chunk.path,
+        chunk.type,
+        chunk.parentSymbol || chunk.symbol
+      );
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+
+    const subChunks = collapsed.filter((chunk) => chunk.parentSymbol);
+    if (subChunks.length === 0) {
+      return collapsed;
+    }
+
+    const parentRows = await this.db
+      .select()
+      .from(codeChunks)
+      .where(
+        and(
+          eq(codeChunks.projectId, projectId),
+          or(
+            ...subChunks.map((chunk) =>
+              and(
+                eq(codeChunks.path, chunk.path),
+                eq(codeChunks.type, chunk.type),
+                eq(codeChunks.symbol, chunk.parentSymbol!)
+              )
+            )
+          )
+        )
+      );
+    const parents = new Map(
+      parentRows.map((row) => [symbolKey(row.path, row.type, row.symbol), row])
+    );
+
+    return collapsed.map((chunk) => {
+      const parent =
+        chunk.parentSymbol &&
+        parents.get(symbolKey(chunk.path, chunk.type, chunk.parentSymbol));
+      if (!parent) {
+        return chunk;
+      }
+
+      return {
+        ...this.toDto(parent),
+        similarity: chunk.similarity,
+        lexicalScore: chunk.lexicalScore,
+        matchedLines: { lineStart: chunk.lineStart, lineEnd: chunk.lineEnd },
+      };
+    });
+  }
+
+  /**
+   * 검색 필터를 SQL 조건 목록으로 변환합니다.
+   * 조건은 WHERE 절에 포함되므로 limit 적용 전에 필터링됩니다.
+   */
+  private buildFilterConditions(filters?: ChunkSearchFilters): SQL[] {
+    const conditions: SQL[] = [];
+    if (!filters) {
+      return conditions;
+    }
+
+    if (filters.types && filters.types.length > 0) {
+      conditions.push(inArray(codeChunks.type, filters.types));
+    }
+
+    if (filters.includePaths && filters.includePaths.length > 0) {
+      const includes = filters.includePaths.map(
+        (glob) => sql`${codeChunks.path} ~ ${globToRegex(glob)}`
+      );
+      conditions.push(or(...includes)!);
+    }
+
+    for (const glob of filters.excludePaths || []) {
+      conditions.push(sql`${codeChunks.path} !~ ${globToRegex(glob)}`);
+    }
+
+    if (filters.namePrefix) {
+      // LIKE 특수문자 이스케이프
+      const prefix = `${filters.namePrefix.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(
+        or(like(codeChunks.name, prefix), like(codeChunks.symbol, prefix))!
+      );
+    }
+
+    if (filters.namePattern) {
+      conditions.push(
+        sql`(${codeChunks.name} ~ ${filters.namePattern} OR ${codeChunks.symbol} ~ ${filters.namePattern})`
+      );
+    }
+
+    if (filters.excludeRange) {
+      const { path, lineStart, lineEnd } = filters.excludeRange;
+      conditions.push(
+        sql`NOT (${codeChunks.path} = ${path} AND ${codeChunks.lineStart} <= ${lineEnd} AND ${codeChunks.lineEnd} >= ${lineStart})`
+      );
+    }
+
+    return conditions;
+  }
+
+  // 전문 검색(tsvector) 기반 코드 청크 검색 (ts_rank_cd 순위)
+  async searchCodeChunksByText(
+    projectId: string,
+    query: string,
+    limit: number = 10,
+    filters?: ChunkSearchFilters
+  ): Promise<ScoredCodeChunk[]> {
+    const lexicalQuery = buildLexicalQuery(query);
+    if (!lexicalQuery) {
+      return [];
+    }
+
+    try {
+      const tsQuery = sql`to_tsquery('simple', ${lexicalQuery})`;
+      const rank = sql<number>`ts_rank_cd(${codeChunks.searchVector}, ${tsQuery})`;
+
+      const results = await this.db
+        .select({
+          id: codeChunks.id,
+          projectId: codeChunks.projectId,
+          path: codeChunks.path,
+          code: codeChunks.code,
+          type: codeChunks.type,
+          name: codeChunks.name,
+          symbol: codeChunks.symbol,
+          lineStart: codeChunks.lineStart,
+          lineEnd: codeChunks.lineEnd,
+          dependencies: codeChunks.dependencies,
+          dependents: codeChunks.dependents,
+          parentName: codeChunks.parentName,
+          lexicalScore: rank,
+        })
+        .from(codeChunks)
+        .where(
+          and(
+            eq(codeChunks.projectId, projectId),
+            // 원본 청크가 코드 전체를 색인하므로 하위 청크는 제외
+            isNull(codeChunks.parentSymbol),
+            sql`${codeChunks.searchVector} @@ ${tsQuery}`,
+            ...this.buildFilterConditions(filters)
+          )
+        )
+        .orderBy(desc(rank))
+        .limit(limit);
+
+      return results.map((chunk) => ({
+        id: chunk.id,
+        projectId: chunk.projectId,
+        path: chunk.path,
+        code: chunk.code,
+        type: chunk.type,
+        name: chunk.name,
+        symbol: chunk.symbol,
+        lineStart: chunk.lineStart,
+        lineEnd: chunk.lineEnd,
+        dependencies: chunk.dependencies || [],
+        dependents: chunk.dependents || [],
+        parentName: chunk.parentName,
+        lexicalScore: chunk.lexicalScore,
+      }));
+    } catch (error) {
+      console.error(
+        `프로젝트 ID ${projectId}의 전문 검색 기반 코드 청크 검색 중 오류 발생:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 렉시컬 검색과 벡터 검색 결과를 Reciprocal Rank Fusion으로 병합합니다.
+   * 각 검색에서 limit보다 넉넉한 후보를 가져온 뒤 순위 기반 점수(1 / (k + rank))를 합산합니다.
+   */
+  async searchCodeChunksHybrid(
+    projectId: string,
+    query: string,
+    embedding: number[],
+    limit: number = 10,
+    threshold: number = 0.3,
+    filters?: ChunkSearchFilters,
+    tuning?: VectorSearchTuning
+  ): Promise<ScoredCodeChunk[]> {
+    const candidateLimit = Math.max(limit * 4, HYBRID_MIN_CANDIDATES);
+
+    const [vectorResults, lexicalResults] = await Promise.all([
+      this.searchCodeChunksByCosine(
+        projectId,
+        embedding,
+        candidateLimit,
+        threshold,
+        filters,
+        tuning
+      ),
+      this.searchCodeChunksByText(projectId, query, candidateLimit, filters),
+    ]);
+
+    return this.fuseByReciprocalRank(
+      [vectorResults, lexicalResults],
+      limit
+    );
+  }
+
+  // 여러 순위 목록을 RRF 점수로 병합
+  private fuseByReciprocalRank(
+    rankedLists: ScoredCodeChunk[][],
+    limit: number
+  ): ScoredCodeChunk[] {
+    const fused = new Map<string, ScoredCodeChunk>();
+
+    for (const rankedList of rankedLists) {
+      rankedList.forEach((chunk, index) => {
+        const contribution = 1 / (RRF_K + index + 1);
+        const existing = fused.get(chunk.id);
+
+        if (existing) {
+          // 검색 방식별 점수를 모두 보존
+          existing.score = (existing.score || 0) + contribution;
+          existing.similarity ??= chunk.similarity;
+          existing.lexicalScore ??= chunk.lexicalScore;
+          existing.matchedLines ??= chunk.matchedLines;
+        } else {
+          fused.set(chunk.id, { ...chunk, score: contribution });
+        }
+      });
+    }
+
+    return Array.from(fused.values())
+      .sort((a, b) => (b.score || 0) - (a.score || 0))
+      .slice(0, limit);
+  }
+
   // 프로젝트 내 코드 청크 키워드 검색
   async searchCodeChunks(projectId: string, query: string, limit: number = 10) {
     try {
@@ -373,6 +1974,7 @@ export class CodeChunkRepository {
         .where(
           and(
             eq(codeChunks.projectId, projectId),
+            isNull(codeChunks.parentSymbol),
             sql`${codeChunks.code} ILIKE ${`%${query}%`}`
           )
         )
@@ -386,10 +1988,12 @@ export class CodeChunkRepository {
         code: chunk.code,
         type: chunk.type,
         name: chunk.name,
+        symbol: chunk.symbol,
         lineStart: chunk.lineStart,
         lineEnd: chunk.lineEnd,
         dependencies: chunk.dependencies || [],
         dependents: chunk.dependents || [],
+        parentName: chunk.parentName,
       }));
 
       return chunks;
@@ -1,8 +1,20 @@
 import * as path from "path";
 import * as fs from "fs/promises";
-import * as ts from "typescript";
 import { v4 as uuidv4 } from "uuid";
 import { EmbeddingService } from "./embeddingService";
+import { CodeChunkRepository } from "./codeChunkRepository";
+import { createDefaultChunkers, LanguageChunker } from "./chunkers";
+import {
+  normalizeCodeWhitespace,
+  splitCodeIntoParts,
+} from "./chunkPreparation";
+import { estimateTokens } from "./tokenEstimator";
+
+// 코드 청크 유형 (method는 클래스에 속한 메서드/접근자/생성자)
+export type CodeChunkType = "function" | "class" | "method" | "type" | "constant";
+
+// 임베딩 상태 (pending은 임베딩에 실패해 다음 분석 때 재시도할 청크)
+export type EmbeddingStatus = "embedded" | "pending" | "skipped";
 
 // 코드 청크 인터페이스
 export interface CodeChunk {
@@ -10,275 +22,227 @@ export interface CodeChunk {
   projectId: string;
   path: string;
   code: string;
-  type: "function" | "class" | "type" | "constant";
+  type: CodeChunkType;
   name: string;
+  // 파일 내 고유 심볼 식별자 (포함 관계를 반영한 한정 경로, 예: cliCommand.execute)
+  symbol: string;
   lineStart: number;
   lineEnd: number;
   dependencies: string[];
   dependents: string[];
+  // 메서드 청크가 속한 클래스 청크 이름
+  parentName?: string | null;
+  // 선언의 타입 시그니처 (TypeScript는 타입 검사기로 계산, 임베딩 문서에 포함)
+  signature?: string | null;
+  // 선언 앞의 문서 주석 (JSDoc 등, 청크 코드에 포함되지 않는 경우)
+  docComment?: string | null;
+  // 토큰 한도를 넘어 분할된 하위 청크가 속한 원본 청크의 한정 심볼 경로 (하위 청크만 설정)
+  parentSymbol?: string | null;
+  // 실제로 임베딩한 입력 텍스트 (메타데이터를 포함한 임베딩 문서, 디버깅과 재임베딩용)
+  embeddingText?: string | null;
+  // 임베딩 입력 텍스트의 해시 (변경되지 않은 청크의 임베딩 재사용용)
+  contentHash?: string | null;
   embedding?: number[] | null;
+  embeddingStatus?: EmbeddingStatus;
+  // 임베딩 실패 사유 (pending 상태일 때)
+  embeddingError?: string | null;
 }
 
+// 여러 파일 청킹 결과 (읽기나 파싱에 실패해 건너뛴 파일은 프로젝트 루트 기준 경로로 기록)
+export type ChunkFilesResult = {
+  chunks: CodeChunk[];
+  failedPaths: string[];
+};
+
+// 파일 탐색 시 제외할 디렉토리
+const IGNORED_DIRECTORIES = [
+  "node_modules",
+  ".git",
+  "dist",
+  "build",
+  "vendor",
+  "__pycache__",
+  ".venv",
+  "venv",
+];
+
 // 코드 청킹 서비스
+// 파일 확장자에 따라 등록된 언어별 청커(LanguageChunker)로 청킹을 위임합니다.
 export class CodeChunkingService {
   private projectRoot: string;
   private projectId: string;
   private embeddingService: EmbeddingService;
-  private program: ts.Program | null = null;
-  private typeChecker: ts.TypeChecker | null = null;
-
-  constructor(projectRoot: string, projectId: string, apiKey?: string) {
+  private repository: CodeChunkRepository;
+  private chunkers: LanguageChunker[];
+
+  constructor(
+    projectRoot: string,
+    projectId: string,
+    embeddingService?: EmbeddingService
+  ) {
     this.projectRoot = projectRoot;
     this.projectId = projectId;
-    this.embeddingService = new EmbeddingService(apiKey);
+    this.embeddingService = embeddingService || new EmbeddingService();
+    this.repository = CodeChunkRepository.getInstance();
+    this.chunkers = createDefaultChunkers();
+  }
+
+  /**
+   * 언어 청커를 추가로 등록합니다.
+   * 이미 등록된 확장자를 처리하는 청커가 있으면 새 청커가 우선합니다.
+   * initialize() 호출 전에 등록해야 합니다.
+   */
+  registerChunker(chunker: LanguageChunker): void {
+    this.chunkers.unshift(chunker);
   }
 
   // 서비스 초기화
   async initialize(): Promise<void> {
-    // tsconfig.json 찾기
-    const tsconfigPath = ts.findConfigFile(
-      this.projectRoot,
-      ts.sys.fileExists,
-      "tsconfig.json"
-    );
-
-    if (!tsconfigPath) {
-      // 기본 컴파일러 옵션 설정
-      const compilerOptions: ts.CompilerOptions = {
-        target: ts.ScriptTarget.ES2020,
-        module: ts.ModuleKind.CommonJS,
-        moduleResolution: ts.ModuleResolutionKind.NodeJs,
-        esModuleInterop: true,
-        skipLibCheck: true,
-        strict: true,
-      };
-
-      // 프로그램 생성
-      this.program = ts.createProgram([], compilerOptions);
-    } else {
-      // tsconfig.json 파싱
-      const configFile = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
-      const parsedConfig = ts.parseJsonConfigFileContent(
-        configFile.config,
-        ts.sys,
-        path.dirname(tsconfigPath)
-      );
+    const context = {
+      projectRoot: this.projectRoot,
+      projectId: this.projectId,
+    };
 
-      // 프로그램 생성
-      this.program = ts.createProgram(
-        parsedConfig.fileNames,
-        parsedConfig.options
-      );
+    for (const chunker of this.chunkers) {
+      await chunker.initialize(context);
     }
-
-    this.typeChecker = this.program.getTypeChecker();
   }
 
   // 서비스 종료
   async shutdown(): Promise<void> {
-    this.program = null;
-    this.typeChecker = null;
-  }
-
-  private getNodePosition(
-    node: ts.Node,
-    sourceFile: ts.SourceFile
-  ): {
-    lineStart: number;
-    lineEnd: number;
-  } {
-    const { line: lineStart } = ts.getLineAndCharacterOfPosition(
-      sourceFile,
-      node.getStart(sourceFile)
-    );
-    const { line: lineEnd } = ts.getLineAndCharacterOfPosition(
-      sourceFile,
-      node.getEnd()
-    );
-    return { lineStart: lineStart + 1, lineEnd: lineEnd + 1 };
+    for (const chunker of this.chunkers) {
+      await chunker.shutdown();
+    }
   }
 
-  private isFunctionLike(node: ts.Node): boolean {
+  // 파일 확장자로 담당 청커 찾기
+  private getChunkerForFile(filePath: string): LanguageChunker | null {
+    const ext = path.extname(filePath).toLowerCase();
     return (
-      ts.isFunctionDeclaration(node) ||
-      ts.isMethodDeclaration(node) ||
-      ts.isArrowFunction(node) ||
-      ts.isFunctionExpression(node)
+      this.chunkers.find((chunker) => chunker.extensions.includes(ext)) ||
+      null
     );
   }
 
-  private getNodeType(
-    node: ts.Node
-  ): "function" | "class" | "type" | "constant" | null {
-    if (this.isFunctionLike(node)) {
-      return "function";
-    } else if (ts.isClassDeclaration(node)) {
-      return "class";
-    } else if (
-      ts.isInterfaceDeclaration(node) ||
-      ts.isTypeAliasDeclaration(node)
-    ) {
-      return "type";
-    } else if (
-      ts.isVariableDeclaration(node) &&
-      node.parent &&
-      ts.isVariableDeclarationList(node.parent) &&
-      node.parent.flags & ts.NodeFlags.Const
-    ) {
-      // 변수가 함수인지 확인
-      const initializer = node.initializer;
-      if (initializer && this.isFunctionLike(initializer)) {
-        return "function";
-      }
-      return "constant";
-    }
-    return null;
-  }
-
-  private collectDependencies(
-    node: ts.Node,
-    sourceFile: ts.SourceFile,
-    typeChecker: ts.TypeChecker
-  ): string[] {
-    const dependencies = new Set<string>();
-
-    // 노드를 재귀적으로 방문하여 의존성 수집
-    const visit = (node: ts.Node) => {
-      // 식별자 처리
-      if (ts.isIdentifier(node)) {
-        const symbol = typeChecker.getSymbolAtLocation(node);
-        if (symbol) {
-          const declaration = symbol.declarations?.[0];
-          if (declaration) {
-            const name = symbol.getName();
-            dependencies.add(name);
-          }
-        }
-      }
-
-      // 타입 참조 처리
-      if (ts.isTypeReferenceNode(node)) {
-        const type = typeChecker.getTypeFromTypeNode(node);
-        const symbol = type.getSymbol();
-        if (symbol) {
-          const name = symbol.getName();
-          dependencies.add(name);
-        }
-      }
-
-      ts.forEachChild(node, visit);
-    };
-
-    visit(node);
-    return Array.from(dependencies);
+  // 청킹 대상 파일 여부
+  private isSupportedFile(filePath: string): boolean {
+    return this.getChunkerForFile(filePath) !== null;
   }
 
   private async extractCodeChunksFromFile(
     filePath: string
   ): Promise<CodeChunk[]> {
-    if (!this.program || !this.typeChecker) {
-      throw new Error("TypeScript 프로그램이 초기화되지 않았습니다.");
-    }
-
-    const sourceFile = this.program.getSourceFile(filePath);
-    if (!sourceFile) {
+    const chunker = this.getChunkerForFile(filePath);
+    if (!chunker) {
       return [];
     }
 
     // 상대 경로 계산
     const relativePath = path.relative(this.projectRoot, filePath);
-
-    const chunks: CodeChunk[] = [];
     const content = await fs.readFile(filePath, "utf-8");
-    const lines = content.split("\n");
 
-    const visit = (node: ts.Node) => {
-      const type = this.getNodeType(node);
-      if (type) {
-        const { lineStart, lineEnd } = this.getNodePosition(node, sourceFile);
-        const codeLines = lines.slice(lineStart - 1, lineEnd);
-        const code = codeLines.join("\n");
+    const chunks = await chunker.extractChunks(
+      filePath,
+      relativePath,
+      content
+    );
+    this.assignUniqueSymbols(chunks);
+    return this.splitOversizedChunks(chunks);
+  }
 
-        let name = "";
-        if (
-          (ts.isFunctionDeclaration(node) ||
-            ts.isClassDeclaration(node) ||
-            ts.isInterfaceDeclaration(node) ||
-            ts.isTypeAliasDeclaration(node)) &&
-          node.name &&
-          ts.isIdentifier(node.name)
-        ) {
-          name = node.name.text;
-        } else if (
-          ts.isVariableDeclaration(node) &&
-          ts.isIdentifier(node.name)
-        ) {
-          name = node.name.text;
-        }
+  /**
+   * 같은 파일 안에서 유형과 심볼 경로가 겹치는 청크(오버로드, getter/setter 쌍 등)에
+   * 등장 순서대로 "#2", "#3" 접미사를 붙여 식별자를 고유하게 만듭니다.
+   */
+  private assignUniqueSymbols(chunks: CodeChunk[]): void {
+    const seen = new Map<string, number>();
 
-        if (name) {
-          const dependencies = this.collectDependencies(
-            node,
-            sourceFile,
-            this.typeChecker!
-          );
-
-          const chunk: CodeChunk = {
-            id: uuidv4(),
-            projectId: this.projectId,
-            path: relativePath, // 상대 경로 사용
-            code,
-            type,
-            name,
-            lineStart,
-            lineEnd,
-            dependencies,
-            dependents: [],
-            embedding: null,
-          };
-          chunks.push(chunk);
-        }
+    for (const chunk of chunks) {
+      const key = `${chunk.type}:${chunk.symbol}`;
+      const occurrence = (seen.get(key) || 0) + 1;
+      seen.set(key, occurrence);
+
+      if (occurrence > 1) {
+        chunk.symbol = `${chunk.symbol}#${occurrence}`;
       }
+    }
+  }
 
-      ts.forEachChild(node, visit);
-    };
+  /**
+   * 임베딩 모델의 입력 토큰 한도를 넘는 청크를 서로 겹치는 하위 청크로 분할합니다.
+   * 하위 청크는 원본 청크 뒤에 "원본심볼#partN" 심볼로 추가되고 parentSymbol로 원본과 연결됩니다.
+   * 원본 청크는 코드 전체를 유지하되 임베딩하지 않으며, 벡터 검색은 하위 청크로 일치시킨 뒤
+   * 원본 청크로 합쳐 반환합니다.
+   */
+  private splitOversizedChunks(chunks: CodeChunk[]): CodeChunk[] {
+    const result: CodeChunk[] = [];
 
-    visit(sourceFile);
-    return chunks;
+    for (const chunk of chunks) {
+      result.push(chunk);
+
+      // 의존성 이름은 확인 전 목록을 사용하므로 실제 임베딩 문서보다 넉넉하게 계산됨
+      const budget = this.embeddingService.getCodeTokenBudget(
+        chunk,
+        chunk.dependencies
+      );
+      if (estimateTokens(normalizeCodeWhitespace(chunk.code)) <= budget) {
+        continue;
+      }
+
+      const parts = splitCodeIntoParts(chunk.code, chunk.lineStart, budget);
+      parts.forEach((part, i) => {
+        result.push({
+          ...chunk,
+          id: uuidv4(),
+          code: part.code,
+          symbol: `${chunk.symbol}#part${i + 1}`,
+          lineStart: part.lineStart,
+          lineEnd: part.lineEnd,
+          dependencies: [],
+          dependents: [],
+          parentSymbol: chunk.symbol,
+        });
+      });
+    }
+
+    return result;
   }
 
-  // 프로젝트 전체 코드 청킹
-  async chunkEntireProject(): Promise<CodeChunk[]> {
-    const chunks = await this.chunkDirectory(this.projectRoot);
+  // 프로젝트 전체 코드 청킹 (읽기나 파싱에 실패한 파일은 건너뛰고 failedPaths로 반환)
+  async chunkEntireProject(): Promise<ChunkFilesResult> {
+    const { chunks, failedPaths } = await this.chunkDirectory(
+      this.projectRoot
+    );
 
-    // 청크 추출 후 의존성 후처리 작업 수행
-    if (chunks.length > 0) {
-      this.processChunkDependencies(chunks);
-      this.analyzeChunkDependencyGraph(chunks);
+    // 청크 추출 후 의존성 후처리 작업 수행 (하위 청크는 원본 청크가 대표)
+    const symbolChunks = chunks.filter((chunk) => !chunk.parentSymbol);
+    if (symbolChunks.length > 0) {
+      this.processChunkDependencies(symbolChunks);
+      this.analyzeChunkDependencyGraph(symbolChunks);
     }
 
-    return chunks;
+    return { chunks, failedPaths };
   }
 
   // 디렉토리 내의 모든 파일 코드 청킹 (병렬 처리)
-  async chunkDirectory(directoryPath: string): Promise<CodeChunk[]> {
+  async chunkDirectory(directoryPath: string): Promise<ChunkFilesResult> {
     const absolutePath = path.isAbsolute(directoryPath)
       ? directoryPath
       : path.join(this.projectRoot, directoryPath);
 
-    // 해당 디렉토리 내의 모든 TS/JS 파일 찾기
-    const tsFiles = await this.findTsFilesInDirectory(absolutePath);
+    // 해당 디렉토리 내의 청킹 가능한 모든 소스 파일 찾기
+    const sourceFiles = await this.findSourceFilesInDirectory(absolutePath);
 
-    if (tsFiles.length === 0) {
-      return [];
+    if (sourceFiles.length === 0) {
+      return { chunks: [], failedPaths: [] };
     }
 
     // 처리 결과 추적용 변수
     let processedFiles = 0;
-    let failedFiles = 0;
+    const failedPaths: string[] = [];
 
     // 파일별 처리를 Promise 배열로 변환하여 병렬 처리
-    const chunkPromises = tsFiles.map(async (file) => {
+    const chunkPromises = sourceFiles.map(async (file) => {
       try {
         const fileChunks = await this.extractCodeChunksFromFile(file);
 
@@ -290,7 +254,7 @@ export class CodeChunkingService {
         return fileChunks;
       } catch (error) {
         console.error(`오류: ${file} 청킹 실패:`, error);
-        failedFiles++;
+        failedPaths.push(path.relative(this.projectRoot, file));
         return [] as CodeChunk[];
       }
     });
@@ -306,27 +270,113 @@ export class CodeChunkingService {
       await this.generateEmbeddingsForChunks(allChunks);
     }
 
-    return allChunks;
+    return { chunks: allChunks, failedPaths };
   }
 
-  // 코드 청크에 대한 임베딩 생성 (배치 처리)
+  /**
+   * 코드 청크에 대한 임베딩 생성 (배치 처리)
+   * 청크마다 메타데이터를 포함한 임베딩 문서를 만들고, 문서의 해시가 이미 저장된 청크와 같으면
+   * 기존 임베딩을 재사용하며 새로 추가되었거나 내용이 바뀐 청크만 임베딩 공급자에 요청합니다.
+   * 하위 청크로 분할된 원본 청크는 하위 청크가 대신 임베딩되므로 건너뜁니다.
+   */
   private async generateEmbeddingsForChunks(
     chunks: CodeChunk[]
   ): Promise<void> {
     try {
-      // 전처리된 코드 준비
+      // 의존성 중 프로젝트에 실제로 있는 심볼 이름만 임베딩 문서에 포함 (함수 안의 지역 상수 제외)
+      const knownNames = new Set([
+        ...(await this.repository.getChunkNames(this.projectId)),
+        ...chunks
+          .filter(
+            (chunk) =>
+              !(chunk.type === "constant" && chunk.symbol.includes("."))
+          )
+          .map((chunk) => chunk.name),
+      ]);
+
+      // 임베딩 문서 준비
       const preprocessedCodes = chunks.map((chunk) =>
-        this.embeddingService.preprocessCodeForEmbedding(chunk.code, chunk.path)
+        this.embeddingService.buildEmbeddingDocument(
+          chunk,
+          chunk.dependencies.filter(
+            (name) => name !== chunk.name && knownNames.has(name)
+          )
+        )
       );
 
-      // 배치로 임베딩 생성 (내부적으로 병렬 처리됨)
-      const embeddings = await this.embeddingService.generateBatchEmbeddings(
-        preprocessedCodes
+      // 콘텐츠 해시 계산 (임베딩한 문서는 디버깅과 재임베딩을 위해 함께 저장)
+      chunks.forEach((chunk, i) => {
+        chunk.embeddingText = preprocessedCodes[i] || null;
+        chunk.contentHash = this.embeddingService.computeContentHash(
+          preprocessedCodes[i]
+        );
+      });
+
+      // 해시가 같은 기존 임베딩 조회
+      const reusableEmbeddings =
+        await this.repository.getEmbeddingsByContentHashes(
+          this.projectId,
+          chunks.map((chunk) => chunk.contentHash!)
+        );
+
+      // 하위 청크로 분할된 원본 청크
+      const splitChunkKeys = new Set(
+        chunks
+          .filter((chunk) => chunk.parentSymbol)
+          .map((chunk) => `${chunk.path}:${chunk.type}:${chunk.parentSymbol}`)
+      );
+
+      // 재사용할 임베딩이 없고 텍스트가 비어있지 않은 청크만 새로 생성
+      const pendingIndexes: number[] = [];
+      chunks.forEach((chunk, i) => {
+        const reused = reusableEmbeddings.get(chunk.contentHash!);
+        if (
+          splitChunkKeys.has(`${chunk.path}:${chunk.type}:${chunk.symbol}`)
+        ) {
+          chunk.embedding = null;
+          chunk.embeddingText = null;
+          chunk.embeddingStatus = "skipped";
+        } else if (reused) {
+          chunk.embedding = reused;
+          chunk.embeddingStatus = "embedded";
+        } else if (preprocessedCodes[i]) {
+          pendingIndexes.push(i);
+        } else {
+          chunk.embeddingStatus = "skipped";
+        }
+      });
+
+      console.error(
+        `임베딩 재사용: ${
+          chunks.length - pendingIndexes.length
+        }개, 새로 생성: ${pendingIndexes.length}개`
       );
 
-      // 각 청크에 임베딩 할당
-      for (let i = 0; i < chunks.length; i++) {
-        chunks[i].embedding = embeddings[i];
+      if (pendingIndexes.length === 0) {
+        return;
+      }
+
+      // 배치로 임베딩 생성 (결과는 입력 인덱스 순서를 유지)
+      const { embeddings, failures } =
+        await this.embeddingService.generateBatchEmbeddings(
+          pendingIndexes.map((i) => preprocessedCodes[i])
+        );
+
+      // 각 청크에 임베딩 할당 (실패한 청크는 pending으로 저장해 다음 분석 때 재시도)
+      const failureMessages = new Map(
+        failures.map((failure) => [failure.index, failure.error])
+      );
+      pendingIndexes.forEach((chunkIndex, i) => {
+        const chunk = chunks[chunkIndex];
+        chunk.embedding = embeddings[i];
+        chunk.embeddingStatus = embeddings[i] ? "embedded" : "pending";
+        chunk.embeddingError = failureMessages.get(i) || null;
+      });
+
+      if (failures.length > 0) {
+        console.error(
+          `임베딩 실패 ${failures.length}개 청크는 pending 상태로 저장되어 다음 분석 때 재시도합니다`
+        );
       }
     } catch (error) {
       console.error("코드 청크 임베딩 생성 중 오류:", error);
@@ -334,13 +384,51 @@ export class CodeChunkingService {
     }
   }
 
-  // 특정 디렉토리에서 모든 TypeScript/JavaScript 파일 찾기
-  private async findTsFilesInDirectory(
+  /**
+   * 이전 분석에서 임베딩에 실패한(pending) 청크의 임베딩을 다시 생성합니다.
+   * @returns 이번에 임베딩된 청크 수와 여전히 pending인 청크 수
+   */
+  async retryPendingEmbeddings(): Promise<{
+    embedded: number;
+    pending: number;
+  }> {
+    const pendingChunks = await this.repository.getPendingEmbeddingChunks(
+      this.projectId
+    );
+    if (pendingChunks.length === 0) {
+      return { embedded: 0, pending: 0 };
+    }
+
+    console.error(`pending 청크 임베딩 재시도: ${pendingChunks.length}개`);
+    const { embeddings, failures } =
+      await this.embeddingService.generateBatchEmbeddings(
+        pendingChunks.map((chunk) =>
+          this.embeddingService.prepareStoredChunkForEmbedding(chunk)
+        )
+      );
+
+    const failureMessages = new Map(
+      failures.map((failure) => [failure.index, failure.error])
+    );
+    await this.repository.updateChunkEmbeddings(
+      pendingChunks.map((chunk, i) => ({
+        id: chunk.id,
+        embedding: embeddings[i],
+        error: failureMessages.get(i) || null,
+      }))
+    );
+
+    const embedded = embeddings.filter((embedding) => embedding).length;
+    return { embedded, pending: pendingChunks.length - embedded };
+  }
+
+  // 특정 디렉토리에서 등록된 청커가 처리할 수 있는 모든 소스 파일 찾기
+  private async findSourceFilesInDirectory(
     directoryPath: string
   ): Promise<string[]> {
     const result: string[] = [];
 
-    const findTsFiles = async (dir: string) => {
+    const findSourceFiles = async (dir: string) => {
       try {
         const entries = await fs.readdir(dir, { withFileTypes: true });
 
@@ -348,22 +436,11 @@ export class CodeChunkingService {
           const fullPath = path.join(dir, entry.name);
 
           if (entry.isDirectory()) {
-            // node_modules, .git 등 제외
-            if (
-              entry.name !== "node_modules" &&
-              entry.name !== ".git" &&
-              entry.name !== "dist" &&
-              entry.name !== "build"
-            ) {
-              await findTsFiles(fullPath);
+            // node_modules, .git, 가상환경 등 제외
+            if (!IGNORED_DIRECTORIES.includes(entry.name)) {
+              await findSourceFiles(fullPath);
             }
-          } else if (
-            entry.isFile() &&
-            (entry.name.endsWith(".ts") ||
-              entry.name.endsWith(".tsx") ||
-              entry.name.endsWith(".js") ||
-              entry.name.endsWith(".jsx"))
-          ) {
+          } else if (entry.isFile() && this.isSupportedFile(entry.name)) {
             result.push(fullPath);
           }
         }
@@ -372,24 +449,37 @@ export class CodeChunkingService {
       }
     };
 
-    await findTsFiles(directoryPath);
+    await findSourceFiles(directoryPath);
     return result;
   }
 
-  // 단일 파일 코드 청킹
-  async chunkFile(filePath: string): Promise<CodeChunk[]> {
-    const absolutePath = path.isAbsolute(filePath)
-      ? filePath
-      : path.join(this.projectRoot, filePath);
+  /**
+   * 여러 파일 코드 청킹 (증분 분석용)
+   * 읽기나 파싱에 실패한 파일은 건너뛰고 failedPaths에 프로젝트 루트 기준 경로로 기록합니다.
+   * 임베딩 생성 오류(인증/모델 설정 오류 등)는 모든 파일에 해당하므로 그대로 던집니다.
+   */
+  async chunkFiles(filePaths: string[]): Promise<ChunkFilesResult> {
+    const chunks: CodeChunk[] = [];
+    const failedPaths: string[] = [];
 
-    const chunks = await this.extractCodeChunksFromFile(absolutePath);
+    for (const filePath of filePaths) {
+      const absolutePath = path.isAbsolute(filePath)
+        ? filePath
+        : path.join(this.projectRoot, filePath);
+      try {
+        chunks.push(...(await this.extractCodeChunksFromFile(absolutePath)));
+      } catch (error) {
+        console.error(`오류: ${absolutePath} 청킹 실패:`, error);
+        failedPaths.push(path.relative(this.projectRoot, absolutePath));
+      }
+    }
 
     // 코드 청크에 대한 임베딩 배치 생성
     if (chunks.length > 0) {
       await this.generateEmbeddingsForChunks(chunks);
     }
 
-    return chunks;
+    return { chunks, failedPaths };
   }
 
   // 청크 의존성 처리
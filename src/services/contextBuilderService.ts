@@ -0,0 +1,317 @@
+import { CodeChunkRepository } from "./codeChunkRepository";
+import { CodeChunk } from "./codeChunkingService";
+import { EmbeddingService } from "./embeddingService";
+import { ChunkSearchFilters } from "./searchFilters";
+import { estimateTokens } from "./tokenEstimator";
+
+// 번들에 포함된 이유: 검색 결과, 검색 결과의 직접 의존성, 검색 결과를 직접 사용하는 청크
+export type ContextRole = "search" | "dependency" | "dependent";
+
+export type ContextBuildOptions = {
+  // 번들 전체의 최대 토큰 수
+  tokenBudget?: number;
+  // 검색으로 가져올 청크 수
+  limit?: number;
+  // 검색 결과의 직접 의존성/피의존성을 포함할지 여부
+  expand?: boolean;
+  filters?: ChunkSearchFilters;
+};
+
+// 번들의 코드 블록 (같은 파일의 연속된 줄 범위)
+export type ContextBlock = {
+  path: string;
+  lineStart: number;
+  lineEnd: number;
+  code: string;
+  tokens: number;
+  // 블록에 포함된 청크 (포함 순서)
+  sources: { symbol: string; type: string; role: ContextRole; via?: string }[];
+};
+
+export type ContextBundle = {
+  task: string;
+  tokenBudget: number;
+  usedTokens: number;
+  // 관련도 순으로 정렬된 블록
+  blocks: ContextBlock[];
+  // 예산이 부족해 제외된 청크
+  omitted: {
+    path: string;
+    lineStart: number;
+    lineEnd: number;
+    symbol: string;
+    role: ContextRole;
+  }[];
+};
+
+// 번들 후보 청크 (배열 순서가 우선순위)
+type ContextCandidate = {
+  chunk: CodeChunk;
+  role: ContextRole;
+  via?: string;
+  // 하위 청크로 일치한 검색 결과의 줄 범위 (전체가 예산을 넘으면 이 범위만 포함)
+  matchedLines?: { lineStart: number; lineEnd: number };
+};
+
+const DEFAULT_TOKEN_BUDGET = 8000;
+const DEFAULT_CONTEXT_LIMIT = 8;
+// 검색 결과 하나당 포함할 최대 의존성/피의존성 청크 수 (방향별)
+const MAX_RELATED_PER_CHUNK = 5;
+// 블록마다 붙는 인용 머리말과 코드 펜스의 토큰 수 추정치
+const BLOCK_OVERHEAD_TOKENS = 20;
+
+/**
+ * 컨텍스트 번들 서비스
+ * 작업 설명으로 관련 청크를 검색하고 저장된 의존성 그래프로 확장한 뒤,
+ * 겹치는 줄 범위를 합쳐 토큰 예산 안에서 하나의 번들로 구성합니다.
+ */
+export class ContextBuilderService {
+  private static instance: ContextBuilderService | null = null;
+  private repository: CodeChunkRepository;
+
+  private constructor() {
+    this.repository = CodeChunkRepository.getInstance();
+  }
+
+  /**
+   * 싱글톤 인스턴스를 반환합니다.
+   */
+  public static getInstance(): ContextBuilderService {
+    if (!ContextBuilderService.instance) {
+      ContextBuilderService.instance = new ContextBuilderService();
+    }
+    return ContextBuilderService.instance;
+  }
+
+  /**
+   * 작업 설명에 맞는 컨텍스트 번들을 만듭니다.
+   * 검색 결과를 순위대로 먼저 담고, 남은 예산으로 직접 의존성, 직접 피의존성 순으로 담습니다.
+   * 이미 담긴 줄과 겹치는 청크는 새 줄만 추가하므로 같은 코드가 두 번 들어가지 않습니다.
+   */
+  public async buildContext(
+    projectId: string,
+    task: string,
+    options: ContextBuildOptions = {},
+    embeddingService: EmbeddingService = new EmbeddingService()
+  ): Promise<ContextBundle> {
+    const project = await this.repository.getProject(projectId);
+    if (!project) {
+      throw new Error(`프로젝트를 찾을 수 없습니다: ${projectId}`);
+    }
+
+    const tokenBudget = options.tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+    const limit = options.limit ?? DEFAULT_CONTEXT_LIMIT;
+
+    embeddingService.assertCompatibleWithProject(project);
+    const queryEmbedding = await embeddingService.generateEmbedding(task);
+    const results = await this.repository.searchCodeChunksHybrid(
+      projectId,
+      task,
+      queryEmbedding,
+      limit,
+      0.3,
+      options.filters
+    );
+
+    const candidates: ContextCandidate[] = results.map((chunk) => ({
+      chunk,
+      role: "search",
+      matchedLines: chunk.matchedLines,
+    }));
+    if (options.expand !== false) {
+      const dependencies = await this.getRelatedCandidates(
+        projectId,
+        results,
+        "dependency"
+      );
+      const dependents = await this.getRelatedCandidates(
+        projectId,
+        results,
+        "dependent"
+      );
+      candidates.push(...dependencies, ...dependents);
+    }
+
+    return this.assembleBundle(task, tokenBudget, candidates);
+  }
+
+  // 검색 결과의 직접 의존성 또는 피의존성 청크 (검색 결과 순위 순)
+  private async getRelatedCandidates(
+    projectId: string,
+    chunks: CodeChunk[],
+    role: "dependency" | "dependent"
+  ): Promise<ContextCandidate[]> {
+    // 피의존성은 저장된 dependents 목록 대신 dependencies에 이름을 포함한 청크로 조회
+    // (dependents 목록은 증분 분석 후 오래될 수 있음)
+    const related =
+      role === "dependency"
+        ? await this.repository.getCodeChunksByNames(
+            projectId,
+            Array.from(new Set(chunks.flatMap((chunk) => chunk.dependencies)))
+          )
+        : await this.repository.getDependentChunks(
+            projectId,
+            Array.from(new Set(chunks.map((chunk) => chunk.name)))
+          );
+    const isRelated = (chunk: CodeChunk, candidate: CodeChunk) =>
+      role === "dependency"
+        ? chunk.dependencies.includes(candidate.symbol) ||
+          chunk.dependencies.includes(candidate.name)
+        : candidate.dependencies.includes(chunk.name);
+
+    const candidates: ContextCandidate[] = [];
+    for (const chunk of chunks) {
+      candidates.push(
+        ...related
+          .filter(
+            (candidate) =>
+              candidate.id !== chunk.id && isRelated(chunk, candidate)
+          )
+          .slice(0, MAX_RELATED_PER_CHUNK)
+          .map((candidate) => ({ chunk: candidate, role, via: chunk.symbol }))
+      );
+    }
+    return candidates;
+  }
+
+  /**
+   * 후보를 우선순위대로 예산 안에 담습니다.
+   * 파일별로 담긴 줄 번호를 기록해 겹치는 범위는 새 줄만 추가하고,
+   * 마지막에 연속된 줄을 블록으로 묶어 가장 높은 우선순위 순으로 정렬합니다.
+   */
+  private assembleBundle(
+    task: string,
+    tokenBudget: number,
+    candidates: ContextCandidate[]
+  ): ContextBundle {
+    // 파일 -> 줄 번호 -> { 줄 내용, 줄을 처음 담은 후보 순위 }
+    const files = new Map<
+      string,
+      Map<number, { text: string; rank: number }>
+    >();
+    // 청크가 번들에 포함된 위치 (블록의 출처 표시용)
+    const anchors: {
+      path: string;
+      lineNumber: number;
+      source: ContextBlock["sources"][number];
+    }[] = [];
+    const addAnchor = (candidate: ContextCandidate, lineNumber: number) => {
+      const { chunk, role, via } = candidate;
+      if (
+        !anchors.some(
+          (anchor) =>
+            anchor.path === chunk.path &&
+            anchor.source.symbol === chunk.symbol
+        )
+      ) {
+        anchors.push({
+          path: chunk.path,
+          lineNumber,
+          source: { symbol: chunk.symbol, type: chunk.type, role, via },
+        });
+      }
+    };
+    const omitted: ContextBundle["omitted"] = [];
+    let usedTokens = 0;
+
+    candidates.forEach((candidate, rank) => {
+      const { chunk } = candidate;
+      const lines = files.get(chunk.path) || new Map();
+      const chunkLines = chunk.code.split("\n").map((text, i) => ({
+        lineNumber: chunk.lineStart + i,
+        text,
+      }));
+
+      // 전체 청크가 예산을 넘으면 일치한 하위 청크 범위만 시도
+      const attempts = [chunkLines];
+      if (candidate.matchedLines) {
+        const { lineStart, lineEnd } = candidate.matchedLines;
+        attempts.push(
+          chunkLines.filter(
+            (line) =>
+              line.lineNumber >= lineStart && line.lineNumber <= lineEnd
+          )
+        );
+      }
+
+      for (const attempt of attempts.filter((part) => part.length > 0)) {
+        const newLines = attempt.filter(
+          (line) => !lines.has(line.lineNumber)
+        );
+        if (newLines.length === 0) {
+          // 이미 담긴 범위에 포함된 청크
+          addAnchor(candidate, attempt[0].lineNumber);
+          return;
+        }
+
+        const cost =
+          estimateTokens(newLines.map((line) => line.text).join("\n")) +
+          BLOCK_OVERHEAD_TOKENS;
+        if (usedTokens + cost <= tokenBudget) {
+          for (const line of newLines) {
+            lines.set(line.lineNumber, { text: line.text, rank });
+          }
+          files.set(chunk.path, lines);
+          addAnchor(candidate, attempt[0].lineNumber);
+          usedTokens += cost;
+          return;
+        }
+      }
+
+      omitted.push({
+        path: chunk.path,
+        lineStart: chunk.lineStart,
+        lineEnd: chunk.lineEnd,
+        symbol: chunk.symbol,
+        role: candidate.role,
+      });
+    });
+
+    // 연속된 줄을 블록으로 묶음
+    const blocks: (ContextBlock & { rank: number })[] = [];
+    for (const [path, lines] of files) {
+      const lineNumbers = Array.from(lines.keys()).sort((a, b) => a - b);
+      let start = 0;
+      for (let i = 1; i <= lineNumbers.length; i++) {
+        if (
+          i < lineNumbers.length &&
+          lineNumbers[i] === lineNumbers[i - 1] + 1
+        ) {
+          continue;
+        }
+
+        const blockLines = lineNumbers.slice(start, i);
+        const lineStart = blockLines[0];
+        const lineEnd = blockLines[blockLines.length - 1];
+        const code = blockLines.map((n) => lines.get(n)!.text).join("\n");
+        blocks.push({
+          path,
+          lineStart,
+          lineEnd,
+          code,
+          tokens: estimateTokens(code),
+          sources: anchors
+            .filter(
+              (anchor) =>
+                anchor.path === path &&
+                anchor.lineNumber >= lineStart &&
+                anchor.lineNumber <= lineEnd
+            )
+            .map((anchor) => anchor.source),
+          rank: Math.min(...blockLines.map((n) => lines.get(n)!.rank)),
+        });
+        start = i;
+      }
+    }
+
+    return {
+      task,
+      tokenBudget,
+      usedTokens,
+      blocks: blocks
+        .sort((a, b) => a.rank - b.rank)
+        .map(({ rank, ...block }) => block),
+      omitted,
+    };
+  }
+}
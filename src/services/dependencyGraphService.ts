@@ -0,0 +1,155 @@
+import { CodeChunkRepository } from "./codeChunkRepository";
+import { CodeChunk } from "./codeChunkingService";
+
+// 탐색 방향: 의존하는 대상(dependencies) 또는 의존받는 대상(dependents)
+export type DependencyDirection = "dependencies" | "dependents";
+
+export type DependencyTraversalOptions = {
+  // 최대 탐색 깊이 (transitive가 false면 무시되고 1로 고정)
+  depth?: number;
+  // 간접(전이) 의존성까지 탐색할지 여부
+  transitive?: boolean;
+};
+
+// 탐색으로 발견된 관련 청크
+export type RelatedChunk = {
+  chunk: CodeChunk;
+  // 시작 심볼로부터의 거리 (직접 의존 = 1)
+  depth: number;
+  // 이 청크를 발견하게 한 청크 이름
+  via: string;
+};
+
+export type DependencyTraversalResult = {
+  // 시작 심볼에 해당하는 청크 (이름이 같은 심볼이 여러 개일 수 있음)
+  roots: CodeChunk[];
+  related: RelatedChunk[];
+};
+
+// 전이 탐색 기본/최대 깊이
+const DEFAULT_TRANSITIVE_DEPTH = 3;
+const MAX_TRAVERSAL_DEPTH = 10;
+
+/**
+ * 의존성 그래프 서비스
+ * 분석 시 저장된 청크의 dependencies 목록을 따라 그래프를 탐색합니다.
+ * 피의존성 방향은 dependencies에 대상 이름을 포함한 청크를 조회해 역방향으로 따라갑니다.
+ */
+export class DependencyGraphService {
+  private static instance: DependencyGraphService | null = null;
+  private repository: CodeChunkRepository;
+
+  private constructor() {
+    this.repository = CodeChunkRepository.getInstance();
+  }
+
+  /**
+   * 싱글톤 인스턴스를 반환합니다.
+   */
+  public static getInstance(): DependencyGraphService {
+    if (!DependencyGraphService.instance) {
+      DependencyGraphService.instance = new DependencyGraphService();
+    }
+    return DependencyGraphService.instance;
+  }
+
+  /**
+   * 심볼(이름, 한정 심볼 경로 또는 청크 ID)에서 시작해 의존성 그래프를 너비 우선으로 탐색합니다.
+   * 각 청크는 가장 가까운 깊이에서 한 번만 반환됩니다.
+   */
+  public async traverse(
+    projectId: string,
+    symbolOrId: string,
+    direction: DependencyDirection,
+    options: DependencyTraversalOptions = {}
+  ): Promise<DependencyTraversalResult> {
+    const roots = await this.repository.findCodeChunksBySymbol(
+      projectId,
+      symbolOrId
+    );
+    if (roots.length === 0) {
+      throw new Error(`심볼을 찾을 수 없습니다: ${symbolOrId}`);
+    }
+
+    const maxDepth = options.transitive
+      ? Math.min(
+          Math.max(options.depth ?? DEFAULT_TRANSITIVE_DEPTH, 1),
+          MAX_TRAVERSAL_DEPTH
+        )
+      : 1;
+
+    const visited = new Set(roots.map((chunk) => chunk.id));
+    const related: RelatedChunk[] = [];
+    let frontier = roots;
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const candidates =
+        direction === "dependencies"
+          ? await this.findDependencies(projectId, frontier)
+          : await this.findDependents(projectId, frontier);
+
+      frontier = [];
+      for (const { chunk, via } of candidates) {
+        if (visited.has(chunk.id)) {
+          continue;
+        }
+        visited.add(chunk.id);
+        frontier.push(chunk);
+        related.push({ chunk, depth, via });
+      }
+    }
+
+    return { roots, related };
+  }
+
+  // frontier 청크의 dependencies 이름에 해당하는 청크
+  private async findDependencies(
+    projectId: string,
+    frontier: CodeChunk[]
+  ): Promise<{ chunk: CodeChunk; via: string }[]> {
+    // 조회할 이름 -> 발견 경로(via) 매핑
+    const viaByName = new Map<string, string>();
+    for (const chunk of frontier) {
+      for (const name of chunk.dependencies) {
+        if (!viaByName.has(name)) {
+          viaByName.set(name, chunk.symbol);
+        }
+      }
+    }
+
+    const candidates = await this.repository.getCodeChunksByNames(
+      projectId,
+      Array.from(viaByName.keys())
+    );
+    return candidates.map((chunk) => ({
+      chunk,
+      via: viaByName.get(chunk.symbol) || viaByName.get(chunk.name) || "",
+    }));
+  }
+
+  // dependencies에 frontier 청크 이름을 포함한 청크
+  // (저장된 dependents 목록은 증분 분석 후 오래될 수 있으므로 사용하지 않음)
+  private async findDependents(
+    projectId: string,
+    frontier: CodeChunk[]
+  ): Promise<{ chunk: CodeChunk; via: string }[]> {
+    const viaByName = new Map<string, string>();
+    for (const chunk of frontier) {
+      if (!viaByName.has(chunk.name)) {
+        viaByName.set(chunk.name, chunk.symbol);
+      }
+    }
+
+    const candidates = await this.repository.getDependentChunks(
+      projectId,
+      Array.from(viaByName.keys())
+    );
+    return candidates.map((chunk) => ({
+      chunk,
+      via:
+        viaByName.get(
+          chunk.dependencies.find((name) => viaByName.has(name)) || ""
+        ) || "",
+    }));
+  }
+}
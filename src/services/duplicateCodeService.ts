@@ -0,0 +1,234 @@
+import {
+  ChunkLocation,
+  CodeChunkRepository,
+  SimilarChunkPair,
+} from "./codeChunkRepository";
+import { VectorSearchTuning } from "./vectorIndex";
+
+export type DuplicateDetectionOptions = {
+  // 유사 중복으로 묶을 최소 코사인 유사도
+  threshold?: number;
+  // 이보다 짧은 청크는 제외 (짧은 상수, 한 줄 함수 등)
+  minLines?: number;
+  // 청크마다 확인할 최근접 청크 수
+  neighbors?: number;
+  // 종류별로 반환할 최대 클러스터 수
+  limit?: number;
+  tuning?: VectorSearchTuning;
+};
+
+// 클러스터 구성 청크
+export type DuplicateMember = ChunkLocation & {
+  // 클러스터의 다른 청크와의 최고 유사도 (정확한 중복은 1)
+  similarity: number;
+};
+
+export type DuplicateCluster = {
+  // exact: 공백을 정규화한 코드가 같음, near: 임베딩 유사도가 임계값 이상
+  kind: "exact" | "near";
+  members: DuplicateMember[];
+  // 클러스터 안에서 연결된 청크 쌍의 최저/최고 유사도
+  minSimilarity: number;
+  maxSimilarity: number;
+};
+
+export type DuplicateReport = {
+  projectId: string;
+  threshold: number;
+  minLines: number;
+  exact: DuplicateCluster[];
+  near: DuplicateCluster[];
+  // limit으로 잘리기 전 클러스터 수
+  totalExact: number;
+  totalNear: number;
+};
+
+const DEFAULT_DUPLICATE_THRESHOLD = 0.9;
+const DEFAULT_MIN_LINES = 3;
+const DEFAULT_NEIGHBORS = 5;
+const DEFAULT_CLUSTER_LIMIT = 50;
+
+/**
+ * 중복 코드 탐지 서비스
+ * 공백을 정규화한 코드 해시로 정확한 중복을, 저장된 임베딩의 코사인 유사도로 유사 중복을 찾아 클러스터로 묶습니다.
+ */
+export class DuplicateCodeService {
+  private static instance: DuplicateCodeService | null = null;
+  private repository: CodeChunkRepository;
+
+  private constructor() {
+    this.repository = CodeChunkRepository.getInstance();
+  }
+
+  /**
+   * 싱글톤 인스턴스를 반환합니다.
+   */
+  public static getInstance(): DuplicateCodeService {
+    if (!DuplicateCodeService.instance) {
+      DuplicateCodeService.instance = new DuplicateCodeService();
+    }
+    return DuplicateCodeService.instance;
+  }
+
+  /**
+   * 프로젝트의 중복 코드 클러스터를 찾습니다.
+   * 유사 중복 클러스터는 정확한 중복끼리의 쌍을 제외하고 만들며, 청크 수와 유사도가 큰 순으로 정렬됩니다.
+   */
+  public async findDuplicates(
+    projectId: string,
+    options: DuplicateDetectionOptions = {}
+  ): Promise<DuplicateReport> {
+    const project = await this.repository.getProject(projectId);
+    if (!project) {
+      throw new Error(`프로젝트를 찾을 수 없습니다: ${projectId}`);
+    }
+
+    const threshold = options.threshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+    if (!(threshold > 0 && threshold <= 1)) {
+      throw new Error(
+        `유사도 임계값은 0보다 크고 1 이하여야 합니다: ${threshold}`
+      );
+    }
+    const minLines = options.minLines ?? DEFAULT_MIN_LINES;
+    const limit = options.limit ?? DEFAULT_CLUSTER_LIMIT;
+
+    // 정확한 중복: 해시가 같은 청크끼리 묶음
+    const exactRows = await this.repository.findExactDuplicateChunks(
+      projectId,
+      minLines
+    );
+    const hashes = new Map(exactRows.map((row) => [row.id, row.hash]));
+    const groups = new Map<string, ChunkLocation[]>();
+    for (const { hash, ...location } of exactRows) {
+      groups.set(hash, [...(groups.get(hash) || []), location]);
+    }
+    const exact = this.dropNestedExactClusters(
+      Array.from(groups.values()).map((members) => ({
+        kind: "exact" as const,
+        members: members.map((member) => ({ ...member, similarity: 1 })),
+        minSimilarity: 1,
+        maxSimilarity: 1,
+      }))
+    );
+
+    // 유사 중복: 임베딩이 없는 프로젝트는 건너뜀
+    let near: DuplicateCluster[] = [];
+    if (project.embeddingDimensions) {
+      const pairs = await this.repository.findSimilarChunkPairs(
+        projectId,
+        project.embeddingDimensions,
+        threshold,
+        options.neighbors ?? DEFAULT_NEIGHBORS,
+        minLines,
+        options.tuning
+      );
+      near = this.clusterPairs(
+        pairs.filter(
+          (pair) =>
+            !hashes.has(pair.source.id) ||
+            hashes.get(pair.source.id) !== hashes.get(pair.target.id)
+        )
+      );
+    }
+
+    const bySize = (a: DuplicateCluster, b: DuplicateCluster) =>
+      b.members.length - a.members.length || b.maxSimilarity - a.maxSimilarity;
+    exact.sort(bySize);
+    near.sort(bySize);
+
+    return {
+      projectId,
+      threshold,
+      minLines,
+      exact: exact.slice(0, limit),
+      near: near.slice(0, limit),
+      totalExact: exact.length,
+      totalNear: near.length,
+    };
+  }
+
+  // 유사한 청크 쌍을 연결 요소(union-find)로 묶어 클러스터 생성
+  private clusterPairs(pairs: SimilarChunkPair[]): DuplicateCluster[] {
+    const locations = new Map<string, ChunkLocation>();
+    const parents = new Map<string, string>();
+    const find = (id: string): string => {
+      let root = id;
+      while (parents.get(root) !== root) {
+        root = parents.get(root)!;
+      }
+      parents.set(id, root);
+      return root;
+    };
+
+    for (const { source, target } of pairs) {
+      for (const location of [source, target]) {
+        if (!locations.has(location.id)) {
+          locations.set(location.id, location);
+          parents.set(location.id, location.id);
+        }
+      }
+      parents.set(find(source.id), find(target.id));
+    }
+
+    // 청크별 최고 유사도와 클러스터별 유사도 범위 집계
+    const bestSimilarity = new Map<string, number>();
+    const clusterRange = new Map<string, { min: number; max: number }>();
+    for (const { source, target, similarity } of pairs) {
+      for (const id of [source.id, target.id]) {
+        bestSimilarity.set(
+          id,
+          Math.max(bestSimilarity.get(id) ?? 0, similarity)
+        );
+      }
+      const root = find(source.id);
+      const range = clusterRange.get(root) || { min: 1, max: 0 };
+      clusterRange.set(root, {
+        min: Math.min(range.min, similarity),
+        max: Math.max(range.max, similarity),
+      });
+    }
+
+    const members = new Map<string, DuplicateMember[]>();
+    for (const [id, location] of locations) {
+      const root = find(id);
+      members.set(root, [
+        ...(members.get(root) || []),
+        { ...location, similarity: bestSimilarity.get(id) ?? 0 },
+      ]);
+    }
+
+    return Array.from(members.entries()).map(([root, clusterMembers]) => ({
+      kind: "near" as const,
+      members: clusterMembers.sort(
+        (a, b) => a.path.localeCompare(b.path) || a.lineStart - b.lineStart
+      ),
+      minSimilarity: clusterRange.get(root)!.min,
+      maxSimilarity: clusterRange.get(root)!.max,
+    }));
+  }
+
+  /**
+   * 다른 정확한 중복 클러스터의 청크 안에 모두 포함되는 클러스터를 제거합니다.
+   * 클래스 전체가 중복이면 그 메서드들도 각각 중복으로 잡히므로 가장 바깥 클러스터만 남깁니다.
+   */
+  private dropNestedExactClusters(
+    clusters: DuplicateCluster[]
+  ): DuplicateCluster[] {
+    const contains = (outer: ChunkLocation, inner: ChunkLocation) =>
+      outer.id !== inner.id &&
+      outer.path === inner.path &&
+      outer.lineStart <= inner.lineStart &&
+      outer.lineEnd >= inner.lineEnd;
+
+    return clusters.filter(
+      (cluster) =>
+        !clusters.some(
+          (other) =>
+            other !== cluster &&
+            cluster.members.every((member) =>
+              other.members.some((outer) => contains(outer, member))
+            )
+        )
+    );
+  }
+}
@@ -1,14 +1,120 @@
-import OpenAI from "openai";
+import { createHash } from "crypto";
 import "dotenv/config";
+import {
+  createEmbeddingProvider,
+  EmbeddingModelInfo,
+  EmbeddingProvider,
+  EmbeddingRequestError,
+} from "./embeddings";
+import type { Project } from "../db/schema";
+import type { CodeChunk } from "./codeChunkingService";
+import type { EmbeddingSourceChunk } from "./codeChunkRepository";
+import {
+  findChunkHeader,
+  normalizeCodeWhitespace,
+  truncateToTokenLimit,
+} from "./chunkPreparation";
+import { estimateTokens } from "./tokenEstimator";
 
+// 배치 임베딩 요청 옵션
+export type EmbeddingRequestOptions = {
+  // 동시에 보낼 최대 배치 요청 수
+  concurrency: number;
+  // 재시도 가능한 오류(429, 5xx, 네트워크)의 최대 재시도 횟수
+  maxRetries: number;
+  // 지수 백오프 기본 대기 시간 (밀리초)
+  baseDelayMs: number;
+  // 백오프 최대 대기 시간 (밀리초, Retry-After 지정 시에는 해당 값을 따름)
+  maxDelayMs: number;
+};
+
+// 배치 임베딩 결과 (입력 순서와 같은 인덱스로 매핑됨)
+export type BatchEmbeddingResult = {
+  // 빈 텍스트이거나 임베딩에 실패한 항목은 null
+  embeddings: (number[] | null)[];
+  // 실패한 항목의 입력 인덱스와 오류 메시지
+  failures: { index: number; error: string }[];
+};
+
+// 임베딩 문서를 만드는 데 필요한 청크 정보
+export type EmbeddingDocumentSource = Pick<
+  CodeChunk,
+  | "path"
+  | "code"
+  | "type"
+  | "symbol"
+  | "parentName"
+  | "parentSymbol"
+  | "signature"
+  | "docComment"
+>;
+
+// 임베딩 문서에 포함할 최대 의존성 이름 수
+const MAX_DOCUMENT_DEPENDENCIES = 20;
+// 임베딩 문서 머리말(메타데이터)이 차지할 수 있는 최대 입력 토큰 비율
+// 넘으면 문서 주석, 의존성, 시그니처 순으로 빼서 코드에 쓸 토큰을 확보
+const MAX_HEADER_TOKEN_RATIO = 0.5;
+
+// 환경 변수 정수 값 (없거나 잘못되면 기본값)
+const envInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// 임베딩 서비스
+// 설정(EMBEDDING_* 환경 변수)으로 선택된 임베딩 공급자에 임베딩 생성을 위임합니다.
 export class EmbeddingService {
-  private openai: OpenAI;
-  private batchSize: number = 300; // 한 번에 처리할 임베딩 개수
+  private provider: EmbeddingProvider;
+  private requestOptions: EmbeddingRequestOptions;
 
-  constructor(apiKey?: string) {
-    this.openai = new OpenAI({
-      apiKey: apiKey || process.env.OPENAI_API_KEY,
-    });
+  constructor(
+    provider?: EmbeddingProvider,
+    requestOptions: Partial<EmbeddingRequestOptions> = {}
+  ) {
+    this.provider = provider || createEmbeddingProvider();
+    this.requestOptions = {
+      concurrency: Math.max(envInt(process.env.EMBEDDING_CONCURRENCY, 4), 1),
+      maxRetries: envInt(process.env.EMBEDDING_MAX_RETRIES, 5),
+      baseDelayMs: 1000,
+      maxDelayMs: 60000,
+      ...requestOptions,
+    };
+  }
+
+  /**
+   * 현재 공급자의 모델 정보 (프로젝트에 기록되는 값)
+   */
+  getModelInfo(): EmbeddingModelInfo {
+    return {
+      provider: this.provider.name,
+      model: this.provider.model,
+      dimensions: this.provider.dimensions,
+    };
+  }
+
+  /**
+   * 프로젝트가 색인된 임베딩 모델과 현재 설정이 같은지 확인합니다.
+   * 모델이나 차원이 다르면 저장된 벡터와 비교할 수 없으므로 오류를 던집니다.
+   * 아직 임베딩 모델이 기록되지 않은 프로젝트는 통과합니다.
+   */
+  assertCompatibleWithProject(
+    project: Pick<Project, "name" | "embeddingModel" | "embeddingDimensions">
+  ): void {
+    if (!project.embeddingModel) {
+      return;
+    }
+
+    const { model, dimensions } = this.getModelInfo();
+    if (
+      project.embeddingModel !== model ||
+      project.embeddingDimensions !== dimensions
+    ) {
+      throw new Error(
+        `프로젝트 "${project.name}"은(는) ${project.embeddingModel}(${project.embeddingDimensions}차원) 모델로 색인되었지만 현재 임베딩 설정은 ${model}(${dimensions}차원)입니다. EMBEDDING_* 환경 변수를 프로젝트 설정에 맞추거나 reembed-project 명령으로 다시 임베딩하세요`
+      );
+    }
   }
 
   /**
@@ -28,31 +134,14 @@ export class EmbeddingService {
       // 로깅
       console.error(`임베딩 생성 요청: 텍스트 길이=${text.length}`);
 
-      // API 키 확인
-      if (!this.openai || !process.env.OPENAI_API_KEY) {
-        throw new Error("OpenAI API 키가 설정되지 않았습니다");
-      }
-
-      const response = await this.openai.embeddings.create({
-        model: "text-embedding-3-small",
-        input: text,
-        encoding_format: "float",
-      });
-
-      if (
-        !response ||
-        !response.data ||
-        !response.data[0] ||
-        !response.data[0].embedding
-      ) {
-        throw new Error("OpenAI API에서 유효한 임베딩 응답을 받지 못했습니다");
-      }
+      const [embedding] = await this.withRetry(() =>
+        this.provider.embed([text])
+      );
+      this.validateDimensions(embedding);
 
       // 로깅
-      console.error(
-        `임베딩 생성 성공: 차원=${response.data[0].embedding.length}`
-      );
-      return response.data[0].embedding;
+      console.error(`임베딩 생성 성공: 차원=${embedding.length}`);
+      return embedding;
     } catch (error) {
       // 자세한 오류 로깅
       console.error("임베딩 생성 오류:", error);
@@ -69,56 +158,203 @@ export class EmbeddingService {
   }
 
   /**
-   * 여러 텍스트에 대한 임베딩을 배치로 생성 (병렬 처리)
+   * 여러 텍스트에 대한 임베딩을 배치로 생성합니다.
+   * 배치 요청은 최대 concurrency개까지 동시에 보내고, 재시도 가능한 오류는 지수 백오프
+   * (Retry-After가 있으면 해당 시간)로 재시도합니다. 입력 항목 때문에 거부된 배치(400, 413, 422)는
+   * 둘로 나눠 다시 요청해 실패한 항목만 골라냅니다.
+   * 인증이나 모델 설정 오류(401, 403, 404 등)는 모든 배치가 같은 이유로 실패하므로
+   * 남은 배치를 요청하지 않고 즉시 오류를 던집니다.
+   * 결과는 항상 입력과 같은 인덱스로 매핑되며, 빈 텍스트와 실패한 항목은 null입니다.
    */
-  async generateBatchEmbeddings(texts: string[]): Promise<number[][]> {
-    if (!texts || texts.length === 0) {
-      return [];
-    }
+  async generateBatchEmbeddings(
+    texts: string[]
+  ): Promise<BatchEmbeddingResult> {
+    const result: BatchEmbeddingResult = {
+      embeddings: new Array(texts?.length || 0).fill(null),
+      failures: [],
+    };
 
-    try {
-      // 빈 문자열 필터링
-      const validTexts = texts.filter((text) => text && text.length > 0);
+    // 비어있지 않은 텍스트의 인덱스만 배치로 분할
+    const indexes = (texts || [])
+      .map((text, index) => (text && text.length > 0 ? index : -1))
+      .filter((index) => index !== -1);
 
-      if (validTexts.length === 0) {
-        return [];
+    const batchSize = this.provider.maxBatchSize;
+    const batches: number[][] = [];
+    for (let i = 0; i < indexes.length; i += batchSize) {
+      batches.push(indexes.slice(i, i + batchSize));
+    }
+
+    // 제한된 동시성으로 배치 처리 (작업자가 대기열에서 배치를 하나씩 가져감)
+    // 한 작업자가 오류를 던지면 다른 작업자도 새 배치를 가져가지 않음
+    let nextBatch = 0;
+    let aborted = false;
+    const worker = async () => {
+      while (!aborted && nextBatch < batches.length) {
+        const batch = batches[nextBatch++];
+        try {
+          await this.embedBatch(texts, batch, result);
+        } catch (error) {
+          aborted = true;
+          throw error;
+        }
       }
+    };
+    await Promise.all(
+      Array.from(
+        { length: Math.min(this.requestOptions.concurrency, batches.length) },
+        worker
+      )
+    );
+
+    if (result.failures.length > 0) {
+      console.error(
+        `배치 임베딩 중 ${result.failures.length}개 항목 실패 (첫 오류: ${result.failures[0].error})`
+      );
+    }
 
-      const batches: string[][] = [];
+    return result;
+  }
 
-      // 배치 사이즈로 텍스트 분할
-      for (let i = 0; i < validTexts.length; i += this.batchSize) {
-        batches.push(validTexts.slice(i, i + this.batchSize));
+  // 배치 하나를 임베딩해 결과에 기록 (입력 항목 오류는 배치를 나눠 실패 항목 격리)
+  private async embedBatch(
+    texts: string[],
+    batch: number[],
+    result: BatchEmbeddingResult
+  ): Promise<void> {
+    try {
+      const embeddings = await this.withRetry(() =>
+        this.provider.embed(batch.map((index) => texts[index]))
+      );
+      batch.forEach((index, i) => {
+        result.embeddings[index] = embeddings[i];
+      });
+    } catch (error) {
+      // 인증/모델 설정 오류나 알 수 없는 오류는 모든 배치가 같은 이유로 실패하므로 전체 중단
+      if (
+        !(error instanceof EmbeddingRequestError) ||
+        !(error.retryable || error.invalidInput)
+      ) {
+        throw error;
+      }
+      if (error.invalidInput && batch.length > 1) {
+        const middle = Math.ceil(batch.length / 2);
+        await this.embedBatch(texts, batch.slice(0, middle), result);
+        await this.embedBatch(texts, batch.slice(middle), result);
+        return;
       }
 
-      // 각 배치에 대해 병렬로 임베딩 요청 생성
-      const batchPromises = batches.map(async (batch, index) => {
-        const response = await this.openai.embeddings.create({
-          model: "text-embedding-3-small",
-          input: batch,
-          encoding_format: "float",
-        });
+      // 거부된 항목이나 재시도를 모두 소진한 일시적 오류는 항목 실패로 기록 (다음 분석 때 재시도)
+      batch.forEach((index) =>
+        result.failures.push({ index, error: error.message })
+      );
+      return;
+    }
 
-        const batchEmbeddings = response.data.map(
-          (item: { embedding: number[] }) => item.embedding
-        );
+    // 차원 불일치는 설정 오류이므로 항목 실패가 아닌 전체 오류로 처리
+    batch.forEach((index) =>
+      this.validateDimensions(result.embeddings[index]!)
+    );
+  }
 
-        return batchEmbeddings;
-      });
+  /**
+   * 재시도 가능한 오류(EmbeddingRequestError.retryable)는 지수 백오프로 재시도합니다.
+   * 서버가 Retry-After를 보내면 해당 시간만큼 기다립니다.
+   */
+  private async withRetry<T>(request: () => Promise<T>): Promise<T> {
+    const { maxRetries, baseDelayMs, maxDelayMs } = this.requestOptions;
 
-      // 모든 배치 요청 병렬 처리 후 결과 합치기
-      const embeddingsArrays = await Promise.all(batchPromises);
-      const embeddings = embeddingsArrays.flat();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        if (
+          !(error instanceof EmbeddingRequestError) ||
+          !error.retryable ||
+          attempt >= maxRetries
+        ) {
+          throw error;
+        }
+
+        // 지수 백오프 + 지터 (동시 요청이 한꺼번에 재시도하지 않도록)
+        const backoff = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+        const delay =
+          error.retryAfterMs ?? Math.round(backoff * (0.5 + Math.random() / 2));
+        console.error(
+          `임베딩 요청 재시도 ${attempt + 1}/${maxRetries} (${delay}ms 후): ${
+            error.message
+          }`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * 청크의 임베딩 문서를 만듭니다.
+   * 유형, 한정 심볼, 감싸는 클래스/모듈, 타입 시그니처, 문서 주석, 직접 의존성 이름을
+   * 코드 앞에 붙여 "커밋 해시를 갱신하는 곳"처럼 코드의 의도를 묻는 자연어 질의도 일치하게 합니다.
+   * 코드는 주석과 줄 구조를 유지한 채 공백만 정규화하며, 모델의 최대 입력 토큰 수를 넘으면
+   * 뒤쪽부터 잘라냅니다 (한도를 넘는 청크는 청킹 단계에서 하위 청크로 분할되므로 예외적인 경우).
+   * @param dependencyNames 프로젝트 안에서 확인된 직접 의존성 이름
+   */
+  buildEmbeddingDocument(
+    chunk: EmbeddingDocumentSource,
+    dependencyNames: string[] = []
+  ): string {
+    try {
+      const code = normalizeCodeWhitespace(chunk.code || "");
+      if (!code.trim()) {
+        return "";
+      }
 
-      return embeddings;
+      return truncateToTokenLimit(
+        this.formatEmbeddingDocument(chunk, dependencyNames, code),
+        this.provider.maxInputTokens
+      );
     } catch (error) {
-      console.error("배치 임베딩 생성 오류:", error);
-      throw error;
+      console.error("임베딩 문서 생성 중 오류:", error);
+      return "";
+    }
+  }
+
+  /**
+   * 임베딩 문서의 메타데이터를 제외하고 청크 코드에 사용할 수 있는 토큰 수
+   * 청크 코드가 이 값을 넘으면 하위 청크로 분할합니다.
+   * 머리말은 최대 입력 토큰의 절반 이내로 줄이므로 코드에는 항상 나머지 절반 이상이 남습니다
+   * (필수 항목만으로 절반을 넘는 경우에도 한 줄씩 분할되지 않도록 최소값을 보장).
+   */
+  getCodeTokenBudget(
+    chunk: EmbeddingDocumentSource,
+    dependencyNames: string[] = []
+  ): number {
+    const { maxInputTokens } = this.provider;
+    return Math.max(
+      maxInputTokens -
+        estimateTokens(
+          this.formatEmbeddingDocument(chunk, dependencyNames, "")
+        ),
+      Math.floor(maxInputTokens * (1 - MAX_HEADER_TOKEN_RATIO))
+    );
+  }
+
+  /**
+   * 저장된 청크의 임베딩 입력 텍스트 (pending 재시도, 재임베딩용)
+   * 분석 시 저장한 임베딩 문서를 현재 모델의 토큰 한도에 맞춰 사용하며,
+   * 임베딩 문서가 저장되기 전에 분석된 청크는 파일 경로와 코드로 입력을 만듭니다.
+   */
+  prepareStoredChunkForEmbedding(chunk: EmbeddingSourceChunk): string {
+    if (chunk.embeddingText) {
+      return truncateToTokenLimit(
+        chunk.embeddingText,
+        this.provider.maxInputTokens
+      );
     }
+    return this.preprocessCodeForEmbedding(chunk.code, chunk.path);
   }
 
   /**
-   * 코드 임베딩을 위한 전처리 수행
+   * 코드 임베딩을 위한 전처리 수행 (메타데이터 없이 파일 경로와 코드만 사용)
    */
   preprocessCodeForEmbedding(code: string, filePath?: string): string {
     if (!code || typeof code !== "string") {
@@ -126,38 +362,93 @@ export class EmbeddingService {
     }
 
     try {
-      // 주석 제거
-      let processed = code.replace(/\/\/.*$/gm, "");
-      processed = processed.replace(/\/\*[\s\S]*?\*\//g, "");
-
-      // 연속된 공백 제거
-      processed = processed.replace(/\s+/g, " ");
-
-      // 앞뒤 공백 제거
-      processed = processed.trim();
-
-      // 파일 경로 정보 추가
-      if (filePath) {
-        processed = `File: ${filePath}\n\nCode:\n${processed}`;
-      }
-
-      // 최소 길이 확인
-      if (processed.length < 1) {
+      const normalized = normalizeCodeWhitespace(code);
+      if (!normalized.trim()) {
         return "";
       }
 
-      // 최대 길이 제한 (OpenAI API 제한)
-      if (processed.length > 8000) {
-        processed = processed.slice(0, 8000);
-      }
-
-      return processed;
+      return truncateToTokenLimit(
+        filePath ? `File: ${filePath}\n\nCode:\n${normalized}` : normalized,
+        this.provider.maxInputTokens
+      );
     } catch (error) {
       console.error("코드 전처리 중 오류:", error);
       return "";
     }
   }
 
+  // 임베딩 문서 구성 (메타데이터 머리말 + 코드)
+  private formatEmbeddingDocument(
+    chunk: EmbeddingDocumentSource,
+    dependencyNames: string[],
+    code: string
+  ): string {
+    const symbol = chunk.parentSymbol || chunk.symbol;
+    const qualifier = symbol.includes(".")
+      ? symbol.slice(0, symbol.lastIndexOf("."))
+      : null;
+    const enclosing = chunk.parentName
+      ? `class ${chunk.parentName}`
+      : qualifier;
+
+    // 시그니처가 없는 언어는 코드 첫머리의 선언부를 사용
+    const lines = chunk.code.split("\n");
+    const { signatureStart, signatureEnd } = findChunkHeader(lines);
+    const signature =
+      chunk.signature ||
+      lines
+        .slice(signatureStart, signatureEnd)
+        .join(" ")
+        .replace(/\s+/g, " ")
+        .trim();
+
+    const uses = dependencyNames.slice(0, MAX_DOCUMENT_DEPENDENCIES);
+
+    // 머리말이 토큰 한도를 넘으면 덜 중요한 항목부터 제외 (문서 주석 -> 의존성 -> 시그니처)
+    const formatHeader = (level: number) =>
+      [
+        `Kind: ${chunk.type}`,
+        `Symbol: ${symbol}`,
+        enclosing ? `Enclosing: ${enclosing}` : null,
+        `Module: ${chunk.path}`,
+        signature && level < 3 ? `Signature: ${signature}` : null,
+        chunk.docComment && level < 1 ? `Docs:\n${chunk.docComment}` : null,
+        uses.length > 0 && level < 2 ? `Uses: ${uses.join(", ")}` : null,
+      ]
+        .filter((line) => line !== null)
+        .join("\n");
+    const maxHeaderTokens =
+      this.provider.maxInputTokens * MAX_HEADER_TOKEN_RATIO;
+    let header = formatHeader(0);
+    for (
+      let level = 1;
+      level <= 3 && estimateTokens(header) > maxHeaderTokens;
+      level++
+    ) {
+      header = formatHeader(level);
+    }
+
+    return `${header}\n\nCode:\n${code}`;
+  }
+
+  /**
+   * 임베딩 입력 텍스트의 콘텐츠 해시 계산 (SHA-256)
+   */
+  computeContentHash(text: string): string {
+    return createHash("sha256").update(text).digest("hex");
+  }
+
+  // 응답 벡터 차원이 설정과 다르면 저장/검색 시 비교할 수 없으므로 즉시 오류
+  private validateDimensions(embedding: number[]): void {
+    if (!embedding || embedding.length !== this.provider.dimensions) {
+      throw new Error(
+        `임베딩 차원이 설정과 다릅니다: 기대값 ${
+          this.provider.dimensions
+        }, 실제 ${embedding?.length ?? 0} (EMBEDDING_DIMENSIONS 확인 필요)`
+      );
+    }
+  }
+
   /**
    * 쿼리 텍스트 임베딩 생성
    */
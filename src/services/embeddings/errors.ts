@@ -0,0 +1,59 @@
+/**
+ * 임베딩 공급자 요청 오류
+ * 공급자별 오류를 상태 코드와 Retry-After 정보로 정규화해 EmbeddingService의 재시도 판단에 사용합니다.
+ */
+export class EmbeddingRequestError extends Error {
+  constructor(
+    message: string,
+    // HTTP 상태 코드 (네트워크 오류 등 응답이 없으면 undefined)
+    public readonly status?: number,
+    // 서버가 Retry-After로 지정한 대기 시간 (밀리초)
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "EmbeddingRequestError";
+  }
+
+  // 재시도하면 성공할 수 있는 오류인지 여부 (네트워크 오류, 408, 429, 5xx)
+  get retryable(): boolean {
+    return (
+      this.status === undefined ||
+      this.status === 408 ||
+      this.status === 429 ||
+      this.status >= 500
+    );
+  }
+
+  // 특정 입력 항목 때문에 거부된 오류인지 여부 (400, 413, 422)
+  // 인증(401, 403)이나 모델 설정(404) 오류와 달리 배치를 나누면 나머지 항목은 성공할 수 있음
+  get invalidInput(): boolean {
+    return (
+      this.status === 400 || this.status === 413 || this.status === 422
+    );
+  }
+}
+
+/**
+ * Retry-After(초 또는 HTTP 날짜) / retry-after-ms 헤더를 밀리초로 변환합니다.
+ */
+export function parseRetryAfter(
+  getHeader: (name: string) => string | null | undefined
+): number | undefined {
+  const retryAfterMs = Number(getHeader("retry-after-ms"));
+  if (Number.isFinite(retryAfterMs) && retryAfterMs > 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = getHeader("retry-after");
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
@@ -0,0 +1,70 @@
+import { splitIdentifier } from "../lexicalSearch";
+import { EmbeddingConfig, EmbeddingProvider } from "./types";
+
+// n-gram 종류별 가중치 (식별자 단어 > 단어 bigram > 문자 trigram)
+const TOKEN_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+// FNV-1a 32비트 해시
+function fnv1a(value: string, seed = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 결정적 오프라인 임베딩 공급자
+ * 토큰 n-gram(식별자 단어, 단어 bigram, 문자 trigram)을 해시해 설정된 차원에 투영한 뒤
+ * L2 정규화합니다 (feature hashing). 같은 입력은 항상 같은 벡터가 되고 네트워크를 사용하지 않으므로
+ * CI와 폐쇄망에서 색인과 검색 전체 흐름을 실행할 수 있습니다.
+ * 의미 유사도는 없지만 어휘가 겹칠수록 코사인 유사도가 높아집니다.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  public readonly name = "hash";
+  public readonly model: string;
+  public readonly dimensions: number;
+  public readonly maxInputTokens: number;
+  public readonly maxBatchSize = 1000;
+
+  constructor(config: EmbeddingConfig) {
+    this.model = config.model;
+    this.dimensions = config.dimensions;
+    this.maxInputTokens = config.maxInputTokens;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = (text.match(/[A-Za-z0-9_]+/g) || []).flatMap((word) =>
+      splitIdentifier(word)
+    );
+
+    words.forEach((word, i) => {
+      this.addFeature(vector, `w:${word}`, TOKEN_WEIGHT);
+      if (i > 0) {
+        this.addFeature(vector, `b:${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+      }
+      const padded = `^${word}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        this.addFeature(vector, `c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map((v) => v / norm) : vector;
+  }
+
+  // 특성을 해시 버킷에 더함 (부호 해시로 충돌 편향 완화)
+  private addFeature(vector: number[], feature: string, weight: number) {
+    const bucket = fnv1a(feature) % this.dimensions;
+    const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1;
+    vector[bucket] += sign * weight;
+  }
+}
@@ -0,0 +1,142 @@
+import {
+  EmbeddingConfig,
+  EmbeddingProvider,
+  EmbeddingProviderName,
+} from "./types";
+import { OpenAIEmbeddingProvider } from "./openaiProvider";
+import { OllamaEmbeddingProvider } from "./ollamaProvider";
+import { HashEmbeddingProvider } from "./hashProvider";
+
+export * from "./types";
+export * from "./errors";
+export {
+  OpenAIEmbeddingProvider,
+  OllamaEmbeddingProvider,
+  HashEmbeddingProvider,
+};
+
+const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = [
+  "openai",
+  "openai-compatible",
+  "ollama",
+  "hash",
+];
+
+// 공급자별 기본 모델
+const DEFAULT_MODELS: Partial<Record<EmbeddingProviderName, string>> = {
+  openai: "text-embedding-3-small",
+  ollama: "nomic-embed-text",
+  hash: "hash-ngram-v1",
+};
+
+// 널리 쓰이는 모델의 기본 차원 (그 외 모델은 EMBEDDING_DIMENSIONS 필요)
+const KNOWN_MODEL_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+  "nomic-embed-text": 768,
+  "mxbai-embed-large": 1024,
+  "all-minilm": 384,
+  "hash-ngram-v1": 512,
+};
+
+// 널리 쓰이는 모델의 최대 입력 토큰 수 (그 외 모델은 EMBEDDING_MAX_TOKENS 또는 기본값)
+const KNOWN_MODEL_MAX_TOKENS: Record<string, number> = {
+  "text-embedding-3-small": 8191,
+  "text-embedding-3-large": 8191,
+  "text-embedding-ada-002": 8191,
+  // Ollama 기본 컨텍스트 길이
+  "nomic-embed-text": 2048,
+  "mxbai-embed-large": 512,
+  "all-minilm": 256,
+  "hash-ngram-v1": 2048,
+};
+
+// 최대 입력 토큰 수를 알 수 없는 모델의 기본값 (대부분의 임베딩 모델이 허용하는 길이)
+const DEFAULT_MAX_INPUT_TOKENS = 512;
+// 허용하는 최소 입력 토큰 수 (임베딩 문서의 메타데이터 머리말과 코드를 함께 담을 수 있는 길이)
+const MIN_MAX_INPUT_TOKENS = 128;
+
+/**
+ * 환경 변수에서 임베딩 설정을 로드합니다.
+ * - EMBEDDING_PROVIDER: openai(기본) | openai-compatible | ollama | hash(오프라인)
+ * - EMBEDDING_MODEL, EMBEDDING_DIMENSIONS: 모델 이름과 벡터 차원
+ * - EMBEDDING_MAX_TOKENS: 텍스트 하나의 최대 입력 토큰 수
+ * - EMBEDDING_BASE_URL: OpenAI 호환 서버 또는 로컬 서버 주소
+ * - EMBEDDING_API_KEY: API 키 (openai는 OPENAI_API_KEY로 대체 가능)
+ */
+export function loadEmbeddingConfig(
+  env: NodeJS.ProcessEnv = process.env
+): EmbeddingConfig {
+  const provider = (env.EMBEDDING_PROVIDER || "openai") as EmbeddingProviderName;
+  if (!EMBEDDING_PROVIDERS.includes(provider)) {
+    throw new Error(
+      `지원하지 않는 임베딩 공급자입니다: ${provider} (${EMBEDDING_PROVIDERS.join(
+        ", "
+      )})`
+    );
+  }
+
+  const model = env.EMBEDDING_MODEL || DEFAULT_MODELS[provider];
+  if (!model) {
+    throw new Error(
+      `${provider} 공급자는 EMBEDDING_MODEL 환경 변수가 필요합니다`
+    );
+  }
+
+  const dimensions = env.EMBEDDING_DIMENSIONS
+    ? Number(env.EMBEDDING_DIMENSIONS)
+    : KNOWN_MODEL_DIMENSIONS[model];
+  if (!dimensions || !Number.isInteger(dimensions) || dimensions <= 0) {
+    throw new Error(
+      `${model} 모델의 벡터 차원을 알 수 없습니다. EMBEDDING_DIMENSIONS 환경 변수를 설정하세요`
+    );
+  }
+
+  const maxInputTokens = env.EMBEDDING_MAX_TOKENS
+    ? Number(env.EMBEDDING_MAX_TOKENS)
+    : KNOWN_MODEL_MAX_TOKENS[model] || DEFAULT_MAX_INPUT_TOKENS;
+  if (!Number.isInteger(maxInputTokens) || maxInputTokens <= 0) {
+    throw new Error(
+      `EMBEDDING_MAX_TOKENS 값이 올바르지 않습니다: ${env.EMBEDDING_MAX_TOKENS}`
+    );
+  }
+  if (maxInputTokens < MIN_MAX_INPUT_TOKENS) {
+    throw new Error(
+      `EMBEDDING_MAX_TOKENS가 너무 작습니다: ${maxInputTokens} (임베딩 문서의 메타데이터와 코드를 담으려면 ${MIN_MAX_INPUT_TOKENS} 이상 필요)`
+    );
+  }
+
+  const baseUrl = env.EMBEDDING_BASE_URL;
+  if (provider === "openai-compatible" && !baseUrl) {
+    throw new Error(
+      "openai-compatible 공급자는 EMBEDDING_BASE_URL 환경 변수가 필요합니다"
+    );
+  }
+
+  return {
+    provider,
+    model,
+    dimensions,
+    maxInputTokens,
+    baseUrl,
+    apiKey:
+      env.EMBEDDING_API_KEY ||
+      (provider === "openai" ? env.OPENAI_API_KEY : undefined),
+  };
+}
+
+// 설정에 맞는 임베딩 공급자 생성
+export function createEmbeddingProvider(
+  config: EmbeddingConfig = loadEmbeddingConfig()
+): EmbeddingProvider {
+  switch (config.provider) {
+    case "openai":
+    case "openai-compatible":
+      return new OpenAIEmbeddingProvider(config);
+    case "ollama":
+      return new OllamaEmbeddingProvider(config);
+    case "hash":
+      return new HashEmbeddingProvider(config);
+  }
+}
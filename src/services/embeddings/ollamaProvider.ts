@@ -0,0 +1,70 @@
+import { EmbeddingConfig, EmbeddingProvider } from "./types";
+import { EmbeddingRequestError, parseRetryAfter } from "./errors";
+
+const DEFAULT_OLLAMA_BASE_URL = "http://localhost:11434";
+
+/**
+ * 로컬 HTTP 임베딩 공급자 (Ollama `/api/embeddings` 형식)
+ * 요청: `{ model, prompt }`, 응답: `{ embedding: number[] }`
+ * 코드가 네트워크 밖으로 나가지 않도록 사내 또는 로컬 서버에서 임베딩을 생성합니다.
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  public readonly name = "ollama";
+  public readonly model: string;
+  public readonly dimensions: number;
+  public readonly maxInputTokens: number;
+  // 엔드포인트가 요청당 텍스트 하나만 받으므로 배치 내에서 순차 요청
+  public readonly maxBatchSize = 32;
+  private endpoint: string;
+
+  constructor(config: EmbeddingConfig) {
+    this.model = config.model;
+    this.dimensions = config.dimensions;
+    this.maxInputTokens = config.maxInputTokens;
+    this.endpoint = `${(config.baseUrl || DEFAULT_OLLAMA_BASE_URL).replace(
+      /\/+$/,
+      ""
+    )}/api/embeddings`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (const text of texts) {
+      embeddings.push(await this.embedOne(text));
+    }
+    return embeddings;
+  }
+
+  private async embedOne(text: string): Promise<number[]> {
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: this.model, prompt: text }),
+      });
+    } catch (error) {
+      // 연결 실패 등 네트워크 오류 (재시도 대상)
+      throw new EmbeddingRequestError(
+        `로컬 임베딩 서버에 연결할 수 없습니다: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new EmbeddingRequestError(
+        `로컬 임베딩 서버 요청 실패 (${response.status} ${response.statusText}): ${detail}`,
+        response.status,
+        parseRetryAfter((name) => response.headers.get(name))
+      );
+    }
+
+    const body = (await response.json()) as { embedding?: number[] };
+    if (!Array.isArray(body.embedding) || body.embedding.length === 0) {
+      throw new Error("로컬 임베딩 서버에서 유효한 임베딩 응답을 받지 못했습니다");
+    }
+    return body.embedding;
+  }
+}
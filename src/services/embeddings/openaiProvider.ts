@@ -0,0 +1,83 @@
+import OpenAI, { APIError } from "openai";
+import { EmbeddingRequestError, parseRetryAfter } from "./errors";
+import {
+  EmbeddingConfig,
+  EmbeddingProvider,
+  EmbeddingProviderName,
+} from "./types";
+
+// dimensions 파라미터로 출력 차원을 줄일 수 있는 OpenAI 모델
+const SHORTENABLE_MODEL_PREFIX = "text-embedding-3";
+
+/**
+ * OpenAI 임베딩 공급자
+ * baseUrl을 지정하면 OpenAI 호환 API 서버(vLLM, LM Studio, 사내 게이트웨이 등)에 요청합니다.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  public readonly name: EmbeddingProviderName;
+  public readonly model: string;
+  public readonly dimensions: number;
+  public readonly maxInputTokens: number;
+  public readonly maxBatchSize = 300;
+  private client: OpenAI | null = null;
+
+  constructor(private config: EmbeddingConfig) {
+    this.name = config.provider;
+    this.model = config.model;
+    this.dimensions = config.dimensions;
+    this.maxInputTokens = config.maxInputTokens;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    let response: OpenAI.CreateEmbeddingResponse;
+    try {
+      response = await this.getClient().embeddings.create({
+        model: this.model,
+        input: texts,
+        encoding_format: "float",
+        // 공식 OpenAI text-embedding-3 모델만 차원 축소 지원
+        ...(this.name === "openai" &&
+        this.model.startsWith(SHORTENABLE_MODEL_PREFIX)
+          ? { dimensions: this.dimensions }
+          : {}),
+      });
+    } catch (error) {
+      if (error instanceof APIError) {
+        throw new EmbeddingRequestError(
+          error.message,
+          error.status,
+          parseRetryAfter((name) => error.headers?.[name])
+        );
+      }
+      throw error;
+    }
+
+    if (!response || !response.data || response.data.length !== texts.length) {
+      throw new Error("임베딩 API에서 유효한 임베딩 응답을 받지 못했습니다");
+    }
+
+    // 응답 순서가 입력 순서와 다를 수 있으므로 index 기준 정렬
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+
+  // 클라이언트는 첫 요청 시 생성 (API 키가 없어도 서비스 생성은 가능하도록)
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const apiKey = this.config.apiKey;
+      if (this.name === "openai" && !apiKey) {
+        throw new Error("OpenAI API 키가 설정되지 않았습니다");
+      }
+
+      this.client = new OpenAI({
+        // 로컬 호환 서버는 키를 요구하지 않는 경우가 많음
+        apiKey: apiKey || "not-needed",
+        baseURL: this.config.baseUrl,
+        // 재시도는 EmbeddingService에서 일괄 처리
+        maxRetries: 0,
+      });
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,45 @@
+// 지원하는 임베딩 공급자
+export type EmbeddingProviderName =
+  | "openai"
+  | "openai-compatible"
+  | "ollama"
+  | "hash";
+
+// 임베딩 공급자 설정 (EMBEDDING_* 환경 변수에서 로드)
+export type EmbeddingConfig = {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+  // 텍스트 하나에 입력할 수 있는 최대 토큰 수 (넘는 청크는 하위 청크로 분할)
+  maxInputTokens: number;
+  // OpenAI 호환 서버 또는 로컬 서버 주소
+  baseUrl?: string;
+  apiKey?: string;
+};
+
+// 프로젝트에 기록되는 임베딩 모델 정보
+export type EmbeddingModelInfo = {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+};
+
+/**
+ * 임베딩 공급자 인터페이스
+ * EmbeddingService는 설정으로 선택된 공급자에 임베딩 생성을 위임합니다.
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  // 생성되는 벡터 차원 (응답 차원이 다르면 오류)
+  readonly dimensions: number;
+  // 텍스트 하나에 입력할 수 있는 최대 토큰 수
+  readonly maxInputTokens: number;
+  // embed() 한 번에 전달할 수 있는 최대 텍스트 수
+  readonly maxBatchSize: number;
+
+  /**
+   * 텍스트 목록의 임베딩을 입력 순서대로 반환합니다.
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
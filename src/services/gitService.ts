@@ -45,6 +45,25 @@ export class GitService {
     }
   }
 
+  /**
+   * 디렉토리가 속한 Git 저장소의 루트 찾기
+   * @param directory 저장소 안의 디렉토리 경로
+   * @returns 저장소 루트 절대 경로 (Git 저장소 밖이면 null)
+   */
+  public findRepositoryRoot(directory: string): string | null {
+    let current = path.resolve(directory);
+    while (true) {
+      if (this.isGitRepository(current)) {
+        return current;
+      }
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return null;
+      }
+      current = parent;
+    }
+  }
+
   /**
    * 현재 Git 저장소의 HEAD 커밋 해시 가져오기
    * @param directory Git 저장소 경로
@@ -108,7 +127,7 @@ export class GitService {
    * @param directory Git 저장소 경로
    * @param oldCommitHash 이전 커밋 해시
    * @param newCommitHash 새 커밋 해시 (기본값: HEAD)
-   * @returns 변경된 파일 경로 목록
+   * @returns 변경된 파일 경로 목록 (삭제되거나 이름이 변경된 파일의 이전 경로 포함)
    */
   public getChangedFiles(
     directory: string,
@@ -121,7 +140,8 @@ export class GitService {
       }
 
       // Git 명령어 실행하여 변경된 파일 목록 가져오기
-      const command = `git -C "${directory}" diff --name-only ${oldCommitHash} ${newCommitHash}`;
+      // 이름 변경은 이전 경로(삭제)와 새 경로(추가)로 나누어 받아 이전 경로의 청크도 정리되도록 함
+      const command = `git -C "${directory}" diff --name-only --no-renames ${oldCommitHash} ${newCommitHash}`;
       const output = execSync(command).toString().trim();
 
       // 결과가 비어있으면 빈 배열 반환
@@ -137,6 +157,29 @@ export class GitService {
     }
   }
 
+  /**
+   * 저장소에서 추적 중인 파일 목록 가져오기 (.gitignore로 제외된 파일은 포함하지 않음)
+   * @param directory Git 저장소 경로
+   * @returns 저장소 루트 기준 상대 경로 목록 (Git 저장소가 아니거나 실패하면 null)
+   */
+  public listTrackedFiles(directory: string): string[] | null {
+    try {
+      if (!this.isGitRepository(directory)) {
+        return null;
+      }
+
+      const output = execSync(`git -C "${directory}" ls-files`, {
+        maxBuffer: 64 * 1024 * 1024,
+      })
+        .toString()
+        .trim();
+      return output ? output.split("\n") : [];
+    } catch (error) {
+      console.error("추적 중인 파일 목록 가져오기 실패:", error);
+      return null;
+    }
+  }
+
   /**
    * 프로젝트의 변경된 파일 목록 가져오기
    * - 마지막 분석 커밋과 현재 HEAD 사이에 변경된 파일 감지
@@ -0,0 +1,42 @@
+// 렉시컬(전문) 검색용 쿼리 토큰화 헬퍼
+// 색인 측 분리 규칙은 src/db/schema.ts의 search_vector 생성식과 맞춰야 합니다.
+
+/**
+ * 식별자를 camelCase / PascalCase / snake_case 기준으로 단어 단위로 분리합니다.
+ * 예: getProjectChangedFiles -> ["get", "project", "changed", "files"]
+ */
+export function splitIdentifier(identifier: string): string[] {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .map((part) => part.toLowerCase())
+    .filter((part) => part.length > 0);
+}
+
+/**
+ * 검색어를 PostgreSQL to_tsquery('simple', ...) 입력으로 변환합니다.
+ * 식별자는 원형(소문자)과 분리된 단어를 모두 OR 조건으로 포함하므로
+ * 정확한 식별자 일치가 부분 일치보다 높은 순위를 받습니다.
+ * @returns tsquery 문자열 (검색 가능한 토큰이 없으면 null)
+ */
+export function buildLexicalQuery(query: string): string | null {
+  const terms = new Set<string>();
+  const identifiers = query.match(/[A-Za-z0-9_]+/g) || [];
+
+  for (const identifier of identifiers) {
+    // snake_case 원형은 색인 시 분리되므로 분리형만 사용
+    if (!identifier.includes("_")) {
+      terms.add(identifier.toLowerCase());
+    }
+    for (const part of splitIdentifier(identifier)) {
+      terms.add(part);
+    }
+  }
+
+  if (terms.size === 0) {
+    return null;
+  }
+
+  return Array.from(terms).join(" | ");
+}
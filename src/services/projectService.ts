@@ -1,6 +1,17 @@
-import { CodeChunkRepository } from "./codeChunkRepository";
+import {
+  CodeChunkRepository,
+  ProjectChunkStats,
+} from "./codeChunkRepository";
 import { GitService } from "./gitService";
 import { CodeChunkingService } from "./codeChunkingService";
+import { EmbeddingService } from "./embeddingService";
+import { EmbeddingModelInfo } from "./embeddings";
+import {
+  toProjectKey,
+  toVectorIndexOptions,
+  VectorIndexInfo,
+  VectorIndexOptions,
+} from "./vectorIndex";
 import * as path from "path";
 import * as fs from "fs";
 
@@ -14,10 +25,81 @@ export type ProjectAnalysisResult = {
   projectId: string;
   analyzedFiles: number;
   totalChunks: number;
+  // 새로 추가된 청크 수
+  addedChunks: number;
+  // 기존 청크가 갱신된 수
+  updatedChunks: number;
+  // 삭제된 파일/심볼로 인해 제거된 청크 수
+  removedChunks: number;
+  // 이전 분석에서 실패했다가 이번에 임베딩된 청크 수
+  retriedEmbeddings: number;
+  // 임베딩에 실패해 다음 분석 때 재시도할 청크 수
+  pendingEmbeddings: number;
   currentCommitHash?: string;
   changedFiles?: string[];
+  // 읽기나 파싱에 실패해 건너뛴 파일 (기존 청크는 유지되며 다음 분석 때 다시 분석)
+  failedFiles?: string[];
 };
 
+// 프로젝트 분석 실행 상태 (진행 중이거나 마지막으로 끝난 분석)
+export type ProjectAnalysisRun = {
+  forceRefresh: boolean;
+  startedAt: Date;
+  // 현재 진행 단계
+  stage: string;
+  // 완료 또는 실패 시각 (진행 중이면 undefined)
+  finishedAt?: Date;
+  result?: ProjectAnalysisResult;
+  error?: string;
+};
+
+export type ReembedProjectResult = {
+  projectId: string;
+  // 교체된 청크 수
+  totalChunks: number;
+  // 이번 실행에서 새로 임베딩한 청크 수
+  embeddedChunks: number;
+  // 중단된 이전 재임베딩을 이어서 진행했는지 여부
+  resumed: boolean;
+  previousModel: EmbeddingModelInfo | null;
+  model: EmbeddingModelInfo;
+  // 교체 후 새 차원으로 다시 생성한 벡터 인덱스
+  rebuiltIndexes: VectorIndexInfo[];
+};
+
+export type VectorIndexStatus = {
+  projectId: string;
+  projectName: string;
+  // 프로젝트 임베딩 차원 (아직 임베딩하지 않았으면 null)
+  dimensions: number | null;
+  // 임베딩이 있는 청크 수
+  embeddedChunks: number;
+  indexes: VectorIndexInfo[];
+};
+
+export type ProjectStatus = {
+  project: NonNullable<
+    Awaited<ReturnType<CodeChunkRepository["getProject"]>>
+  >;
+  // 현재 HEAD 커밋 (Git 저장소가 아니면 null)
+  currentCommitHash: string | null;
+  // 마지막 분석 이후 변경된 파일 (분석 기록이 없으면 null)
+  changedFiles: string[] | null;
+  stats: ProjectChunkStats;
+  vectorIndexes: VectorIndexInfo[];
+};
+
+export type DetectedProject = {
+  project: NonNullable<
+    Awaited<ReturnType<CodeChunkRepository["getProject"]>>
+  >;
+  // 등록되지 않은 Git 저장소라서 새로 생성했는지 여부 (생성한 경우 분석 필요)
+  created: boolean;
+};
+
+// 재임베딩 시 한 번에 조회/임베딩할 청크 수
+const REEMBED_PAGE_SIZE = 500;
+
 /**
  * 프로젝트 서비스 클래스
  * 프로젝트 생성, 조회, 분석 등의 기능을 제공합니다.
@@ -26,6 +108,8 @@ export class ProjectService {
   private static instance: ProjectService;
   private repository: CodeChunkRepository;
   private gitService: GitService;
+  // 프로젝트별 진행 중이거나 마지막으로 끝난 분석 (같은 프로젝트의 동시 분석 방지, 진행 상황 조회)
+  private analysisRuns = new Map<string, ProjectAnalysisRun>();
 
   private constructor() {
     this.repository = CodeChunkRepository.getInstance();
@@ -91,13 +175,190 @@ export class ProjectService {
     return await this.repository.getProject(projectId);
   }
 
+  /**
+   * 프로젝트 ID 또는 이름으로 프로젝트를 찾습니다.
+   * 같은 이름의 프로젝트가 여러 개면 ID로 지정하도록 오류를 던집니다.
+   */
+  public async resolveProject(idOrName: string) {
+    const projects = await this.repository.getProjects();
+    const byId = projects.find((project) => project.id === idOrName);
+    if (byId) {
+      return byId;
+    }
+
+    const byName = projects.filter((project) => project.name === idOrName);
+    if (byName.length === 0) {
+      throw new Error(`프로젝트를 찾을 수 없습니다: ${idOrName}`);
+    }
+    if (byName.length > 1) {
+      throw new Error(
+        `이름이 ${idOrName}인 프로젝트가 여러 개입니다. ID로 지정하세요:\n${byName
+          .map((project) => `- ${project.id} ${project.path}`)
+          .join("\n")}`
+      );
+    }
+    return byName[0];
+  }
+
+  /**
+   * 프로젝트의 분석 상태를 조회합니다.
+   * 마지막 분석 커밋과 현재 HEAD를 비교한 변경 파일, 청크/임베딩 통계, 벡터 인덱스를 포함합니다.
+   */
+  public async getProjectStatus(projectId: string): Promise<ProjectStatus> {
+    const project = await this.repository.getProject(projectId);
+    if (!project) {
+      throw new Error(`프로젝트를 찾을 수 없습니다: ${projectId}`);
+    }
+
+    const { changedFiles, currentHash } =
+      await this.gitService.getProjectChangedFiles(projectId);
+
+    return {
+      project,
+      currentCommitHash: currentHash,
+      changedFiles: project.lastCommitHash
+        ? changedFiles.map((file) => path.relative(project.path, file))
+        : null,
+      stats: await this.repository.getProjectChunkStats(projectId),
+      vectorIndexes: await this.repository.getVectorIndexes(projectId),
+    };
+  }
+
+  /**
+   * 디렉토리가 속한 프로젝트를 찾습니다.
+   * 디렉토리가 프로젝트 경로와 같거나 그 하위에 있는 프로젝트 중 경로가 가장 긴(가장 안쪽) 프로젝트를 반환합니다.
+   */
+  public async findProjectByPath(directory: string) {
+    const target = path.resolve(directory);
+    const matches = (await this.repository.getProjects()).filter(
+      (project) => {
+        const root = path.resolve(project.path);
+        return (
+          target === root ||
+          target.startsWith(root.endsWith(path.sep) ? root : root + path.sep)
+        );
+      }
+    );
+    if (matches.length === 0) {
+      return null;
+    }
+    return matches.reduce((longest, project) =>
+      path.resolve(project.path).length > path.resolve(longest.path).length
+        ? project
+        : longest
+    );
+  }
+
+  /**
+   * 디렉토리로 프로젝트를 감지합니다.
+   * 등록된 프로젝트가 없고 autoCreate가 켜져 있으면 디렉토리가 속한 Git 저장소를 프로젝트로 생성합니다.
+   * 새로 생성한 프로젝트는 아직 분석되지 않았으므로 호출자가 analyzeProject를 실행해야 합니다.
+   * @returns 감지한 프로젝트 (없으면 null)
+   */
+  public async detectProject(
+    directory: string,
+    options: { autoCreate?: boolean } = {}
+  ): Promise<DetectedProject | null> {
+    const existing = await this.findProjectByPath(directory);
+    if (existing) {
+      return { project: existing, created: false };
+    }
+    if (!options.autoCreate) {
+      return null;
+    }
+
+    const root = this.gitService.findRepositoryRoot(directory);
+    if (!root) {
+      return null;
+    }
+
+    const projectId = await this.createProject({
+      name: path.basename(root),
+      path: root,
+    });
+    console.error(`Git 저장소를 프로젝트로 등록했습니다: ${root} (${projectId})`);
+    const project = await this.repository.getProject(projectId);
+    return project ? { project, created: true } : null;
+  }
+
+  /**
+   * 프로젝트 분석이 진행 중인지 확인합니다.
+   */
+  public isAnalyzing(projectId: string): boolean {
+    const run = this.analysisRuns.get(projectId);
+    return run !== undefined && !run.finishedAt;
+  }
+
+  /**
+   * 진행 중이거나 이 프로세스에서 마지막으로 끝난 프로젝트 분석의 상태를 반환합니다.
+   */
+  public getAnalysisRun(projectId: string): ProjectAnalysisRun | undefined {
+    return this.analysisRuns.get(projectId);
+  }
+
   /**
    * 프로젝트를 분석하여 코드 청크를 생성합니다.
    * Git 저장소인 경우 마지막 분석 이후 변경된 파일만 선택적으로 분석합니다.
+   * 삭제된 파일이나 제거된 심볼의 청크는 함께 정리합니다.
+   * 같은 프로젝트의 분석이 이미 진행 중이면 오류를 던집니다.
    */
   public async analyzeProject(
     projectId: string,
     forceRefresh = false
+  ): Promise<ProjectAnalysisResult> {
+    if (this.isAnalyzing(projectId)) {
+      throw new Error(`이미 분석이 진행 중인 프로젝트입니다: ${projectId}`);
+    }
+
+    const run: ProjectAnalysisRun = {
+      forceRefresh,
+      startedAt: new Date(),
+      stage: "분석 준비",
+    };
+    this.analysisRuns.set(projectId, run);
+    try {
+      run.result = await this.runAnalysis(projectId, forceRefresh, run);
+      return run.result;
+    } catch (error) {
+      run.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      run.finishedAt = new Date();
+    }
+  }
+
+  /**
+   * 프로젝트 분석을 백그라운드에서 시작하고 바로 반환합니다.
+   * 진행 상황과 결과는 getAnalysisRun으로 조회합니다.
+   * 같은 프로젝트의 분석이 이미 진행 중이면 오류를 던집니다.
+   */
+  public startAnalysis(
+    projectId: string,
+    forceRefresh = false
+  ): ProjectAnalysisRun {
+    if (this.isAnalyzing(projectId)) {
+      throw new Error(`이미 분석이 진행 중인 프로젝트입니다: ${projectId}`);
+    }
+
+    console.error(`프로젝트 분석을 시작합니다: ${projectId}`);
+    this.analyzeProject(projectId, forceRefresh)
+      .then((result) => {
+        console.error(
+          `프로젝트 분석 완료: ${projectId} (파일 ${result.analyzedFiles}개, 청크 ${result.totalChunks}개)`
+        );
+      })
+      .catch((error) => {
+        console.error(`프로젝트 분석 중 오류 발생: ${projectId}`, error);
+      });
+    // analyzeProject는 첫 await 전에 실행 상태를 등록함
+    return this.analysisRuns.get(projectId)!;
+  }
+
+  // 프로젝트 분석 본체 (analyzeProject에서 동시 실행을 막은 뒤 호출, 진행 단계를 run에 기록)
+  private async runAnalysis(
+    projectId: string,
+    forceRefresh: boolean,
+    run: ProjectAnalysisRun
   ): Promise<ProjectAnalysisResult> {
     const project = await this.repository.getProject(projectId);
 
@@ -105,6 +366,23 @@ export class ProjectService {
       throw new Error(`프로젝트를 찾을 수 없습니다: ${projectId}`);
     }
 
+    // 현재 임베딩 설정이 프로젝트에 기록된 모델과 같은지 확인
+    const embeddingService = new EmbeddingService();
+    embeddingService.assertCompatibleWithProject(project);
+
+    const chunkingService = new CodeChunkingService(
+      project.path,
+      project.id,
+      embeddingService
+    );
+
+    // 이전 분석에서 임베딩에 실패한 청크 재시도
+    run.stage = "이전 분석에서 실패한 임베딩 재시도";
+    const retried = await chunkingService.retryPendingEmbeddings();
+    if (retried.embedded > 0) {
+      console.error(`pending 청크 임베딩 완료: ${retried.embedded}개`);
+    }
+
     // Git 저장소 체크 및 변경사항 확인
     let filesToAnalyze: string[] | null = null;
     let changedFiles: string[] = [];
@@ -112,6 +390,7 @@ export class ProjectService {
 
     if (this.gitService.isGitRepository(project.path)) {
       console.error("Git 저장소 감지됨, 변경사항 확인 중...");
+      run.stage = "변경된 파일 확인";
       const {
         changedFiles: changed,
         currentHash,
@@ -144,6 +423,11 @@ export class ProjectService {
           projectId,
           analyzedFiles: 0,
           totalChunks: chunkCount,
+          addedChunks: 0,
+          updatedChunks: 0,
+          removedChunks: 0,
+          retriedEmbeddings: retried.embedded,
+          pendingEmbeddings: retried.pending,
           currentCommitHash: currentCommitHash || undefined,
           changedFiles: undefined,
         };
@@ -170,37 +454,100 @@ export class ProjectService {
     }
 
     // 프로젝트 코드베이스 청킹
-    const chunkingService = new CodeChunkingService(project.path, project.id);
     await chunkingService.initialize();
 
     // 특정 파일만 분석할지 전체 프로젝트를 분석할지 결정
     let chunks;
+    // 정리 대상 범위 (null이면 프로젝트 전체)
+    let scopePaths: string[] | null = null;
+    // 읽기나 파싱에 실패해 건너뛴 파일 (프로젝트 루트 기준 경로)
+    let failedPaths: string[] = [];
     if (filesToAnalyze && !forceRefresh) {
       // 변경된 파일만 청킹
       console.error("변경된 파일만 분석합니다...");
-      chunks = [];
-      for (const filePath of filesToAnalyze) {
-        const relativeFilePath = path.relative(project.path, filePath);
-        console.error(`파일 분석 중: ${relativeFilePath}`);
-        try {
-          const fileChunks = await chunkingService.chunkFile(filePath);
-          chunks.push(...fileChunks);
-        } catch (error) {
-          console.error(`파일 분석 중 오류 발생: ${filePath}`, error);
-          // 개별 파일 오류는 무시하고 계속 진행
+      // 삭제(또는 이름 변경)된 파일은 청킹 없이 기존 청크만 제거
+      const existingFiles = filesToAnalyze.filter((filePath) => {
+        if (fs.existsSync(filePath)) {
+          return true;
         }
-      }
+        console.error(`삭제된 파일: ${path.relative(project.path, filePath)}`);
+        return false;
+      });
+
+      run.stage = `변경된 파일 청킹과 임베딩 생성 (${existingFiles.length}개)`;
+      const chunked = await chunkingService.chunkFiles(existingFiles);
+      chunks = chunked.chunks;
+      failedPaths = chunked.failedPaths;
+
+      // 청킹에 실패한 파일은 분석 범위에서 제외 (기존 청크는 유지)
+      scopePaths = filesToAnalyze
+        .map((filePath) => path.relative(project.path, filePath))
+        .filter((relativePath) => !failedPaths.includes(relativePath));
     } else {
       // 전체 프로젝트 청킹
       console.error("전체 프로젝트를 분석합니다...");
-      chunks = await chunkingService.chunkEntireProject();
+      run.stage = "전체 프로젝트 청킹과 임베딩 생성";
+      const chunked = await chunkingService.chunkEntireProject();
+      chunks = chunked.chunks;
+      failedPaths = chunked.failedPaths;
     }
 
+    // 분석 범위의 기존 청크와 비교하여 추가/갱신/삭제 대상 판별
+    const existingChunks = await this.repository.getChunkIdentities(
+      projectId,
+      scopePaths ?? undefined
+    );
+    const chunkKey = (chunk: { path: string; type: string; symbol: string }) =>
+      `${chunk.path}:${chunk.type}:${chunk.symbol}`;
+    const existingKeys = new Set(existingChunks.map(chunkKey));
+    const newKeys = new Set(chunks.map(chunkKey));
+
+    const addedChunks = Array.from(newKeys).filter(
+      (key) => !existingKeys.has(key)
+    ).length;
+    const updatedChunks = newKeys.size - addedChunks;
+    // 청킹에 실패한 파일의 기존 청크는 삭제하지 않고 유지
+    const staleChunkIds = existingChunks
+      .filter(
+        (chunk) =>
+          !newKeys.has(chunkKey(chunk)) && !failedPaths.includes(chunk.path)
+      )
+      .map((chunk) => chunk.id);
+
     // 청크 저장
+    run.stage = `청크 저장 (${chunks.length}개)`;
     await this.repository.saveCodeChunks(chunks);
 
+    // 첫 분석이면 사용한 임베딩 모델을 프로젝트에 기록
+    if (!project.embeddingModel) {
+      await this.repository.updateProjectEmbeddingModel(
+        projectId,
+        embeddingService.getModelInfo()
+      );
+    }
+
+    // 더 이상 존재하지 않는 파일/심볼의 청크 제거
+    const removedChunks = await this.repository.deleteCodeChunksByIds(
+      staleChunkIds
+    );
+    if (removedChunks > 0) {
+      console.error(`제거된 코드 청크 수: ${removedChunks}`);
+    }
+
+    // 변경된 파일만 청킹한 경우 청크의 의존성이 확인되지 않은 채 저장되므로 프로젝트 전체 심볼로 다시 계산
+    // (변경되지 않은 청크의 피의존성과 삭제된 심볼을 가리키던 의존성도 함께 갱신)
+    if (scopePaths) {
+      run.stage = "프로젝트 전체 의존성 계산";
+      await this.repository.resolveProjectDependencies(projectId);
+    }
+
     // Git 커밋 해시 업데이트 (있는 경우)
-    if (currentCommitHash) {
+    // 건너뛴 파일이 있으면 다음 분석 때 변경된 파일로 다시 감지되도록 갱신하지 않음
+    if (currentCommitHash && failedPaths.length > 0) {
+      console.error(
+        `청킹에 실패한 파일 ${failedPaths.length}개가 있어 Git 커밋 해시를 갱신하지 않습니다`
+      );
+    } else if (currentCommitHash) {
       await this.repository.updateProjectCommitHash(
         projectId,
         currentCommitHash
@@ -212,11 +559,222 @@ export class ProjectService {
       projectId,
       analyzedFiles: new Set(chunks.map((c) => c.path)).size,
       totalChunks: chunks.length,
+      addedChunks,
+      updatedChunks,
+      removedChunks,
+      retriedEmbeddings: retried.embedded,
+      pendingEmbeddings:
+        retried.pending +
+        chunks.filter((chunk) => chunk.embeddingStatus === "pending").length,
       currentCommitHash: currentCommitHash || undefined,
       changedFiles: changedFiles.length > 0 ? changedFiles : undefined,
+      failedFiles: failedPaths.length > 0 ? failedPaths : undefined,
     };
   }
 
+  /**
+   * 프로젝트의 모든 청크를 현재 임베딩 설정(새 모델/차원)으로 다시 임베딩합니다.
+   * 새 임베딩은 스테이징 컬럼에 저장되므로 진행 중에도 기존 임베딩으로 검색할 수 있으며,
+   * 모든 청크가 준비되면 한 트랜잭션으로 교체하고 프로젝트의 임베딩 모델 정보를 갱신합니다.
+   * 중단된 경우 같은 설정으로 다시 실행하면 남은 청크부터 이어서 진행합니다.
+   */
+  public async reembedProject(
+    projectId: string,
+    embeddingService: EmbeddingService = new EmbeddingService()
+  ): Promise<ReembedProjectResult> {
+    const project = await this.repository.getProject(projectId);
+    if (!project) {
+      throw new Error(`프로젝트를 찾을 수 없습니다: ${projectId}`);
+    }
+
+    const target = embeddingService.getModelInfo();
+    const previousModel: EmbeddingModelInfo | null = project.embeddingModel
+      ? {
+          provider: project.embeddingProvider as EmbeddingModelInfo["provider"],
+          model: project.embeddingModel,
+          dimensions: project.embeddingDimensions!,
+        }
+      : null;
+
+    if (
+      previousModel &&
+      previousModel.model === target.model &&
+      previousModel.dimensions === target.dimensions
+    ) {
+      throw new Error(
+        `프로젝트가 이미 ${target.model}(${target.dimensions}차원) 모델로 임베딩되어 있습니다`
+      );
+    }
+
+    const resumed = await this.repository.beginStagingEmbeddings(
+      projectId,
+      target
+    );
+    console.error(
+      `재임베딩 ${resumed ? "재개" : "시작"}: ${
+        previousModel
+          ? `${previousModel.model}(${previousModel.dimensions}차원)`
+          : "없음"
+      } -> ${target.model}(${target.dimensions}차원)`
+    );
+
+    // 스테이징 임베딩이 없는 청크를 모두 임베딩 (진행 중 분석으로 바뀐 청크와 실패한 청크를 위해 더 이상 없을 때까지 반복)
+    let embeddedChunks = 0;
+    let embeddedInPass: number;
+    let failedInPass: number;
+    do {
+      embeddedInPass = 0;
+      failedInPass = 0;
+      let cursor: string | undefined;
+
+      while (true) {
+        const page = await this.repository.getChunksWithoutStagingEmbedding(
+          projectId,
+          REEMBED_PAGE_SIZE,
+          cursor
+        );
+        if (page.length === 0) {
+          break;
+        }
+        cursor = page[page.length - 1].id;
+
+        // 전처리 결과가 빈 청크는 기존 분석과 같이 임베딩하지 않음
+        const embeddable = page
+          .map((chunk) => ({
+            id: chunk.id,
+            text: embeddingService.prepareStoredChunkForEmbedding(chunk),
+          }))
+          .filter((chunk) => chunk.text);
+        if (embeddable.length === 0) {
+          continue;
+        }
+
+        const { embeddings, failures } =
+          await embeddingService.generateBatchEmbeddings(
+            embeddable.map((chunk) => chunk.text)
+          );
+        const staged = embeddable
+          .map((chunk, i) => ({ id: chunk.id, embedding: embeddings[i] }))
+          .filter(
+            (row): row is { id: string; embedding: number[] } =>
+              row.embedding !== null
+          );
+        await this.repository.saveStagingEmbeddings(staged);
+
+        embeddedInPass += staged.length;
+        failedInPass += failures.length;
+        console.error(`재임베딩 진행: ${embeddedChunks + embeddedInPass}개`);
+      }
+
+      embeddedChunks += embeddedInPass;
+    } while (embeddedInPass > 0);
+
+    // 실패한 청크가 남아 있으면 교체하지 않음 (다시 실행하면 실패한 청크부터 이어서 진행)
+    if (failedInPass > 0) {
+      throw new Error(
+        `${failedInPass}개 청크의 임베딩에 실패해 교체를 중단했습니다. 같은 설정으로 다시 실행하면 남은 청크부터 이어서 진행합니다`
+      );
+    }
+
+    // 교체 시 이전 차원의 벡터 인덱스가 삭제되므로 같은 옵션으로 다시 생성
+    const previousIndexes = await this.repository.getVectorIndexes(projectId);
+    const totalChunks = await this.repository.swapStagingEmbeddings(
+      projectId,
+      target
+    );
+    console.error(`임베딩 교체 완료: ${totalChunks}개 청크`);
+
+    const rebuiltIndexes: VectorIndexInfo[] = [];
+    for (const index of previousIndexes.filter((index) => index.valid)) {
+      console.error(`벡터 인덱스 재생성 중: ${index.name}`);
+      rebuiltIndexes.push(
+        await this.repository.createVectorIndex(
+          projectId,
+          target.dimensions,
+          toVectorIndexOptions(index)
+        )
+      );
+    }
+
+    return {
+      projectId,
+      totalChunks,
+      embeddedChunks,
+      resumed,
+      previousModel,
+      model: target,
+      rebuiltIndexes,
+    };
+  }
+
+  /**
+   * 프로젝트 임베딩에 대한 ANN 벡터 인덱스를 생성합니다.
+   * 이미 인덱스가 있으면 rebuild를 지정해야 하며, 새 인덱스가 준비되면 기존 인덱스와 교체합니다.
+   */
+  public async buildVectorIndex(
+    projectId: string,
+    options: VectorIndexOptions,
+    rebuild: boolean = false
+  ): Promise<VectorIndexInfo> {
+    const project = await this.repository.getProject(projectId);
+    if (!project) {
+      throw new Error(`프로젝트를 찾을 수 없습니다: ${projectId}`);
+    }
+    if (!project.embeddingDimensions) {
+      throw new Error(
+        `프로젝트에 임베딩 차원 정보가 없습니다. 먼저 프로젝트를 분석하거나 재임베딩하세요: ${projectId}`
+      );
+    }
+
+    const existing = await this.repository.getVectorIndexes(projectId);
+    if (existing.length > 0 && !rebuild) {
+      throw new Error(
+        `프로젝트에 이미 벡터 인덱스가 있습니다 (${existing
+          .map((index) => index.name)
+          .join(", ")}). 다시 생성하려면 rebuild 옵션을 지정하세요`
+      );
+    }
+
+    return await this.repository.createVectorIndex(
+      projectId,
+      project.embeddingDimensions,
+      options
+    );
+  }
+
+  /**
+   * 프로젝트별 벡터 인덱스 상태를 조회합니다.
+   * @param projectId 생략하면 모든 프로젝트를 조회
+   */
+  public async getVectorIndexStatus(
+    projectId?: string
+  ): Promise<VectorIndexStatus[]> {
+    const selected = projectId
+      ? await this.repository.getProject(projectId)
+      : null;
+    if (projectId && !selected) {
+      throw new Error(`프로젝트를 찾을 수 없습니다: ${projectId}`);
+    }
+    const projects = selected ? [selected] : await this.repository.getProjects();
+
+    const indexes = await this.repository.getVectorIndexes(projectId);
+    const statuses: VectorIndexStatus[] = [];
+    for (const project of projects) {
+      statuses.push({
+        projectId: project.id,
+        projectName: project.name,
+        dimensions: project.embeddingDimensions,
+        embeddedChunks: await this.repository.getEmbeddedChunkCount(
+          project.id
+        ),
+        indexes: indexes.filter(
+          (index) => index.projectKey === toProjectKey(project.id)
+        ),
+      });
+    }
+    return statuses;
+  }
+
   /**
    * 프로젝트의 마지막 분석 커밋 해시를 업데이트합니다.
    */
@@ -0,0 +1,70 @@
+import { CodeChunkType } from "./codeChunkingService";
+
+// 코드 청크 검색 필터 (모두 SQL 조건으로 변환되어 limit 적용 전에 필터링됨)
+export type ChunkSearchFilters = {
+  // 포함할 청크 유형 (하나 이상이면 OR)
+  types?: CodeChunkType[];
+  // 포함할 경로 glob 목록 (하나라도 일치하면 포함)
+  includePaths?: string[];
+  // 제외할 경로 glob 목록 (하나라도 일치하면 제외)
+  excludePaths?: string[];
+  // 심볼 이름 접두사 (name 또는 한정 symbol 기준)
+  namePrefix?: string;
+  // 심볼 이름 정규식 (PostgreSQL POSIX 정규식, name 또는 symbol 기준)
+  namePattern?: string;
+  // 제외할 줄 범위 (같은 파일에서 범위가 겹치는 청크 제외, 유사 코드 검색의 기준 코드용)
+  excludeRange?: { path: string; lineStart: number; lineEnd: number };
+};
+
+/**
+ * 경로 glob 패턴을 PostgreSQL POSIX 정규식으로 변환합니다.
+ * 지원 문법: `**` (디렉토리 포함 임의 경로), `*`, `?`, `{a,b}`
+ * 슬래시가 없는 패턴(예: *.test.ts)은 모든 디렉토리에서 일치하고,
+ * 슬래시로 끝나는 패턴(예: src/tools/)은 해당 디렉토리 하위 전체와 일치합니다.
+ */
+export function globToRegex(pattern: string): string {
+  let glob = pattern.trim().replace(/^\.\//, "");
+  if (!glob.includes("/")) {
+    glob = `**/${glob}`;
+  } else if (glob.endsWith("/")) {
+    glob = `${glob}**`;
+  }
+
+  let regex = "";
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/"는 0개 이상의 디렉토리, 그 외 "**"는 임의 문자열
+        if (glob[i + 2] === "/") {
+          regex += "(.*/)?";
+          i += 2;
+        } else {
+          regex += ".*";
+          i += 1;
+        }
+      } else {
+        regex += "[^/]*";
+      }
+    } else if (char === "?") {
+      regex += "[^/]";
+    } else if (char === "{") {
+      inGroup = true;
+      regex += "(";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      regex += ")";
+    } else if (char === "," && inGroup) {
+      regex += "|";
+    } else if (/[.+^$()|[\]\\{}]/.test(char)) {
+      regex += `\\${char}`;
+    } else {
+      regex += char;
+    }
+  }
+
+  return `^${regex}$`;
+}
@@ -0,0 +1,249 @@
+import {
+  CodeChunkRepository,
+  ScoredCodeChunk,
+} from "./codeChunkRepository";
+import { CodeChunk } from "./codeChunkingService";
+import { EmbeddingService } from "./embeddingService";
+import { FileSystemService } from "./fileSystem";
+import { ChunkSearchFilters } from "./searchFilters";
+import { VectorSearchTuning } from "./vectorIndex";
+
+// 유사 코드 검색의 기준 코드 (청크 ID, 심볼 또는 파일 경로와 줄 범위 중 하나)
+export type SimilarCodeSeed =
+  | { chunkId: string }
+  | { symbol: string }
+  | { path: string; startLine: number; endLine: number };
+
+export type SimilarCodeOptions = {
+  limit?: number;
+  threshold?: number;
+  filters?: ChunkSearchFilters;
+  tuning?: VectorSearchTuning;
+};
+
+export type SimilarCodeResult = {
+  // 기준 코드 위치 (청크로 지정했거나 범위가 청크와 일치하면 청크 정보 포함)
+  seed: {
+    path: string;
+    lineStart: number;
+    lineEnd: number;
+    chunk?: CodeChunk;
+  };
+  // 저장된 임베딩을 재사용했는지 여부 (false면 기준 코드를 새로 임베딩)
+  reusedEmbedding: boolean;
+  matches: ScoredCodeChunk[];
+};
+
+/**
+ * 유사 코드 검색 서비스
+ * 기존 청크나 파일의 줄 범위를 기준으로 프로젝트에서 임베딩이 가까운 청크를 찾습니다.
+ */
+export class SimilarCodeService {
+  private static instance: SimilarCodeService | null = null;
+  private repository: CodeChunkRepository;
+
+  private constructor() {
+    this.repository = CodeChunkRepository.getInstance();
+  }
+
+  /**
+   * 싱글톤 인스턴스를 반환합니다.
+   */
+  public static getInstance(): SimilarCodeService {
+    if (!SimilarCodeService.instance) {
+      SimilarCodeService.instance = new SimilarCodeService();
+    }
+    return SimilarCodeService.instance;
+  }
+
+  /**
+   * 기준 코드와 유사한 청크를 코사인 유사도 순으로 반환합니다.
+   * 기준 청크에 저장된 임베딩이 있으면 재사용하고, 없거나 임의의 줄 범위면 새로 임베딩합니다.
+   * 기준 코드와 같은 파일에서 줄 범위가 겹치는 청크(기준 청크 자신과 그 하위/상위 청크)는 제외합니다.
+   */
+  public async findSimilar(
+    projectId: string,
+    seed: SimilarCodeSeed,
+    options: SimilarCodeOptions = {},
+    embeddingService: EmbeddingService = new EmbeddingService()
+  ): Promise<SimilarCodeResult> {
+    const project = await this.repository.getProject(projectId);
+    if (!project) {
+      throw new Error(`프로젝트를 찾을 수 없습니다: ${projectId}`);
+    }
+
+    let chunk: CodeChunk | null = null;
+    let rangeCode: string | null = null;
+    let location: { path: string; lineStart: number; lineEnd: number };
+
+    if ("chunkId" in seed || "symbol" in seed) {
+      chunk =
+        "chunkId" in seed
+          ? await this.resolveChunkById(projectId, seed.chunkId)
+          : await this.resolveChunkBySymbol(projectId, seed.symbol);
+      location = {
+        path: chunk.path,
+        lineStart: chunk.lineStart,
+        lineEnd: chunk.lineEnd,
+      };
+    } else {
+      location = {
+        path: seed.path,
+        lineStart: seed.startLine,
+        lineEnd: seed.endLine,
+      };
+      // 범위가 분석된 청크와 정확히 일치하면 해당 청크의 임베딩 재사용
+      chunk = await this.repository.findCodeChunkByRange(
+        projectId,
+        seed.path,
+        seed.startLine,
+        seed.endLine
+      );
+      if (!chunk) {
+        rangeCode = await this.readLineRange(
+          project.path,
+          seed.path,
+          seed.startLine,
+          seed.endLine
+        );
+        location.lineEnd = Math.min(
+          seed.endLine,
+          seed.startLine + rangeCode.split("\n").length - 1
+        );
+      }
+    }
+
+    let embedding = chunk
+      ? await this.repository.getChunkEmbedding(chunk.id)
+      : null;
+    const reusedEmbedding = embedding !== null;
+
+    if (!embedding) {
+      // 저장된 벡터와 비교하려면 프로젝트와 같은 모델로 임베딩해야 함
+      embeddingService.assertCompatibleWithProject(project);
+
+      let text: string;
+      if (chunk) {
+        // 임베딩이 없는 청크 (하위 청크로 분할된 원본 청크, 임베딩 실패 청크)
+        const row = await this.repository.getCodeChunk(chunk.id);
+        text = row
+          ? embeddingService.prepareStoredChunkForEmbedding(row)
+          : "";
+      } else {
+        text = embeddingService.preprocessCodeForEmbedding(
+          rangeCode || "",
+          location.path
+        );
+      }
+      if (!text) {
+        throw new Error(
+          `기준 코드가 비어 있어 임베딩할 수 없습니다: ${location.path}:${location.lineStart}-${location.lineEnd}`
+        );
+      }
+      embedding = await embeddingService.generateEmbedding(text);
+    }
+
+    const matches = await this.repository.searchCodeChunksByCosine(
+      projectId,
+      embedding,
+      options.limit ?? 10,
+      options.threshold ?? 0.3,
+      {
+        ...options.filters,
+        excludeRange: {
+          path: location.path,
+          lineStart: location.lineStart,
+          lineEnd: location.lineEnd,
+        },
+      },
+      options.tuning
+    );
+
+    return {
+      seed: { ...location, ...(chunk && { chunk }) },
+      reusedEmbedding,
+      matches,
+    };
+  }
+
+  // 청크 ID로 기준 청크 조회 (다른 프로젝트의 청크는 허용하지 않음)
+  private async resolveChunkById(
+    projectId: string,
+    chunkId: string
+  ): Promise<CodeChunk> {
+    const [chunk] = (
+      await this.repository.findCodeChunksBySymbol(projectId, chunkId)
+    ).filter((candidate) => candidate.id === chunkId);
+    if (!chunk) {
+      throw new Error(`청크를 찾을 수 없습니다: ${chunkId}`);
+    }
+    return chunk;
+  }
+
+  // 심볼로 기준 청크 조회 (같은 이름의 심볼이 여러 개면 후보를 안내)
+  private async resolveChunkBySymbol(
+    projectId: string,
+    symbol: string
+  ): Promise<CodeChunk> {
+    const candidates = await this.repository.findCodeChunksBySymbol(
+      projectId,
+      symbol
+    );
+    if (candidates.length === 0) {
+      throw new Error(`심볼을 찾을 수 없습니다: ${symbol}`);
+    }
+
+    // 한정 심볼 경로가 정확히 일치하는 청크가 하나면 이름만 같은 청크보다 우선
+    const exact = candidates.filter(
+      (candidate) => candidate.symbol === symbol
+    );
+    if (exact.length === 1) {
+      return exact[0];
+    }
+    if (candidates.length > 1) {
+      throw new Error(
+        `심볼 ${symbol}에 해당하는 청크가 여러 개입니다. chunkId로 지정하세요:\n${candidates
+          .map(
+            (candidate) =>
+              `- ${candidate.id} ${candidate.symbol} (${candidate.type}) ${candidate.path}:${candidate.lineStart}-${candidate.lineEnd}`
+          )
+          .join("\n")}`
+      );
+    }
+    return candidates[0];
+  }
+
+  // 프로젝트 파일에서 줄 범위 읽기 (1부터 시작, 끝 줄 포함)
+  private async readLineRange(
+    projectRoot: string,
+    filePath: string,
+    startLine: number,
+    endLine: number
+  ): Promise<string> {
+    if (
+      !Number.isInteger(startLine) ||
+      !Number.isInteger(endLine) ||
+      startLine < 1 ||
+      endLine < startLine
+    ) {
+      throw new Error(
+        `잘못된 줄 범위입니다: ${startLine}-${endLine} (1 이상이고 시작 줄 <= 끝 줄이어야 합니다)`
+      );
+    }
+
+    const result = await new FileSystemService(projectRoot).readFile(
+      filePath
+    );
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    const lines = (result.data as string).split(/\r?\n/);
+    if (startLine > lines.length) {
+      throw new Error(
+        `시작 줄이 파일 길이(${lines.length}줄)를 벗어납니다: ${filePath}:${startLine}`
+      );
+    }
+    return lines.slice(startLine - 1, endLine).join("\n");
+  }
+}
@@ -0,0 +1,31 @@
+// 토크나이저 없이 BPE 토큰 수를 근사하기 위한 분리 패턴
+// (영문/식별자 조각, 숫자, 공백, 그 외 문자 하나씩)
+const TOKEN_PATTERN = /[A-Za-z_]+|\d+|\s+|[^\sA-Za-z\d_]/g;
+
+/**
+ * 텍스트의 토큰 수를 추정합니다.
+ * 코드에서 BPE 토크나이저(cl100k 등)보다 조금 크게 잡히도록 보수적으로 계산합니다.
+ * - 영문/식별자: 4글자당 1토큰
+ * - 숫자: 3자리당 1토큰
+ * - 줄바꿈이나 두 칸 이상의 공백: 1토큰 (단일 공백은 다음 단어에 합쳐짐)
+ * - 그 외 문자(기호, 한글 등): 글자당 1토큰
+ */
+export function estimateTokens(text: string): number {
+  if (!text) {
+    return 0;
+  }
+
+  let tokens = 0;
+  for (const [piece] of text.matchAll(TOKEN_PATTERN)) {
+    if (/\s/.test(piece[0])) {
+      tokens += piece.length > 1 || piece === "\n" ? 1 : 0;
+    } else if (/\d/.test(piece[0])) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (/[A-Za-z_]/.test(piece[0])) {
+      tokens += Math.ceil(piece.length / 4);
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
@@ -0,0 +1,203 @@
+import { SQL, sql } from "drizzle-orm";
+
+// pgvector ANN(근사 최근접 이웃) 인덱스 헬퍼
+// embedding 컬럼은 프로젝트마다 차원이 달라 차원 없는 vector 타입이므로, 인덱스는 프로젝트별 부분 인덱스로
+// 임베딩을 고정 차원으로 캐스팅한 식 위에 만듭니다. 검색 쿼리도 같은 식으로 정렬해야 인덱스를 사용합니다.
+
+// 인덱스 방식
+export type VectorIndexMethod = "hnsw" | "ivfflat";
+
+export const VECTOR_INDEX_METHODS: VectorIndexMethod[] = ["hnsw", "ivfflat"];
+
+// 인덱스 생성 파라미터 (생략 시 pgvector 권장 기본값)
+export type VectorIndexOptions = {
+  method: VectorIndexMethod;
+  // HNSW: 노드당 최대 연결 수
+  m?: number;
+  // HNSW: 생성 시 후보 목록 크기
+  efConstruction?: number;
+  // IVFFlat: 클러스터 수 (생략 시 임베딩된 청크 수로 계산)
+  lists?: number;
+};
+
+// 쿼리별 검색 파라미터 (클수록 정확하지만 느림)
+export type VectorSearchTuning = {
+  // HNSW 검색 후보 목록 크기 (hnsw.ef_search)
+  efSearch?: number;
+  // IVFFlat 탐색 클러스터 수 (ivfflat.probes)
+  probes?: number;
+};
+
+// 인덱스 정보 (pg_indexes 정의에서 해석)
+export type VectorIndexInfo = {
+  name: string;
+  // 인덱스 이름에서 확인한 프로젝트 ID (대시 제외 16진수)
+  projectKey: string;
+  method: VectorIndexMethod;
+  dimensions: number | null;
+  parameters: Record<string, number>;
+  sizeBytes: number;
+  // CONCURRENTLY 생성이 실패하면 유효하지 않은 인덱스가 남음
+  valid: boolean;
+  definition: string;
+};
+
+// 관리 대상 인덱스 이름 접두사
+export const VECTOR_INDEX_PREFIX = "chunk_embedding_";
+
+// vector 타입으로 색인할 수 있는 최대 차원 (넘으면 halfvec으로 캐스팅, pgvector 0.7 이상 필요)
+export const MAX_VECTOR_INDEX_DIMENSIONS = 2000;
+
+export const DEFAULT_HNSW_M = 16;
+export const DEFAULT_HNSW_EF_CONSTRUCTION = 64;
+// 인덱스 생성을 권장하는 임베딩된 청크 수 (이보다 적으면 전체 스캔도 충분히 빠름)
+export const VECTOR_INDEX_RECOMMENDED_ROWS = 10_000;
+// hnsw.ef_search 기본값과 pgvector 허용 최대값
+export const DEFAULT_EF_SEARCH = 40;
+export const MAX_EF_SEARCH = 1000;
+// 반복 인덱스 스캔(hnsw.iterative_scan, ivfflat.iterative_scan)을 지원하는 최소 pgvector 버전
+export const ITERATIVE_SCAN_MIN_VERSION = [0, 8, 0];
+
+// 프로젝트와 방식별 인덱스 이름 (PostgreSQL 식별자 길이 63자 이내)
+export function getVectorIndexName(
+  projectId: string,
+  method: VectorIndexMethod
+): string {
+  return `${VECTOR_INDEX_PREFIX}${method}_${projectId.replace(/-/g, "")}`;
+}
+
+// 인덱스 이름에서 프로젝트 키 추출용 (projectId의 대시 제거 형태)
+export function toProjectKey(projectId: string): string {
+  return projectId.replace(/-/g, "").toLowerCase();
+}
+
+// 차원에 맞는 고정 차원 타입 이름 (예: vector(1536), halfvec(3072))
+export function vectorTypeName(dimensions: number): string {
+  const type =
+    dimensions > MAX_VECTOR_INDEX_DIMENSIONS ? "halfvec" : "vector";
+  return `${type}(${Math.trunc(dimensions)})`;
+}
+
+/**
+ * 인덱스와 검색 쿼리가 공유하는 고정 차원 임베딩 식
+ * @param column embedding 컬럼 (SQL 또는 컬럼 참조)
+ */
+export function embeddingExpression(column: unknown, dimensions: number): SQL {
+  return sql`(${column}::${sql.raw(vectorTypeName(dimensions))})`;
+}
+
+// 차원에 맞는 코사인 연산자 클래스
+export function vectorOperatorClass(dimensions: number): string {
+  return dimensions > MAX_VECTOR_INDEX_DIMENSIONS
+    ? "halfvec_cosine_ops"
+    : "vector_cosine_ops";
+}
+
+/**
+ * IVFFlat 기본 클러스터 수 (pgvector 권장: 100만 행까지 rows / 1000, 이후 sqrt(rows))
+ */
+export function defaultIvfflatLists(rows: number): number {
+  if (rows <= 1_000_000) {
+    return Math.max(1, Math.round(rows / 1000));
+  }
+  return Math.round(Math.sqrt(rows));
+}
+
+// 인덱스 생성 파라미터를 WITH 절 값으로 변환
+export function buildIndexParameters(
+  options: VectorIndexOptions,
+  rows: number
+): Record<string, number> {
+  if (options.method === "hnsw") {
+    return {
+      m: options.m ?? DEFAULT_HNSW_M,
+      ef_construction: options.efConstruction ?? DEFAULT_HNSW_EF_CONSTRUCTION,
+    };
+  }
+  return { lists: options.lists ?? defaultIvfflatLists(rows) };
+}
+
+/**
+ * 관리 대상 인덱스의 이름과 정의(pg_indexes.indexdef)를 해석합니다.
+ * @returns 관리 대상 이름 형식이 아니면 null
+ */
+export function parseVectorIndexDefinition(
+  name: string,
+  definition: string,
+  sizeBytes: number,
+  valid: boolean
+): VectorIndexInfo | null {
+  const match = name.match(
+    new RegExp(`^${VECTOR_INDEX_PREFIX}(hnsw|ivfflat)_([0-9a-f]{32})(_new)?$`)
+  );
+  if (!match || match[3]) {
+    return null;
+  }
+
+  const dimensions = definition.match(/(?:halfvec|vector)\((\d+)\)/);
+  const parameters: Record<string, number> = {};
+  const withClause = definition.match(/WITH \(([^)]*)\)/);
+  for (const pair of withClause?.[1].split(",") || []) {
+    const [key, value] = pair.split("=").map((part) => part.trim());
+    if (key && value) {
+      parameters[key] = Number(value.replace(/'/g, ""));
+    }
+  }
+
+  return {
+    name,
+    projectKey: match[2],
+    method: match[1] as VectorIndexMethod,
+    dimensions: dimensions ? Number(dimensions[1]) : null,
+    parameters,
+    sizeBytes,
+    valid,
+    definition,
+  };
+}
+
+// 해석한 인덱스 정보를 다시 생성 옵션으로 변환 (재생성 시 같은 파라미터 유지)
+export function toVectorIndexOptions(
+  index: VectorIndexInfo
+): VectorIndexOptions {
+  return {
+    method: index.method,
+    m: index.parameters.m,
+    efConstruction: index.parameters.ef_construction,
+    lists: index.parameters.lists,
+  };
+}
+
+// pgvector 확장 버전(예: "0.8.0")이 반복 인덱스 스캔을 지원하는지 여부
+export function supportsIterativeScan(version: string | null): boolean {
+  if (!version) {
+    return false;
+  }
+  const parts = version.split(".").map((part) => parseInt(part, 10) || 0);
+  for (let i = 0; i < ITERATIVE_SCAN_MIN_VERSION.length; i++) {
+    if ((parts[i] ?? 0) !== ITERATIVE_SCAN_MIN_VERSION[i]) {
+      return (parts[i] ?? 0) > ITERATIVE_SCAN_MIN_VERSION[i];
+    }
+  }
+  return true;
+}
+
+/**
+ * 환경 변수에서 기본 검색 파라미터를 로드합니다.
+ * - VECTOR_EF_SEARCH: hnsw.ef_search 기본값
+ * - VECTOR_PROBES: ivfflat.probes 기본값
+ */
+export function loadSearchTuning(
+  env: NodeJS.ProcessEnv = process.env
+): VectorSearchTuning {
+  const positive = (value?: string) => {
+    const parsed = Number(value);
+    return value && Number.isInteger(parsed) && parsed > 0
+      ? parsed
+      : undefined;
+  };
+  return {
+    efSearch: positive(env.VECTOR_EF_SEARCH),
+    probes: positive(env.VECTOR_PROBES),
+  };
+}
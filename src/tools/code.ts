@@ -3,33 +3,136 @@ import { EmbeddingService } from "../services/embeddingService";
 import { db } from "../db";
 import { projects, codeChunks, type CodeChunk } from "../db/schema";
 import { eq } from "drizzle-orm";
-import { CodeChunkRepository } from "../services/codeChunkRepository";
-import { CodeChunk as CodeChunkDto } from "../services/codeChunkingService";
-
-// 환경 변수에서 프로젝트 ID 가져오기
-const getProjectId = () => {
-  const projectId = process.env.PROJECT_ID;
-  if (!projectId) {
-    throw new Error("PROJECT_ID 환경 변수가 설정되지 않았습니다");
+import {
+  CodeChunkRepository,
+  ScoredCodeChunk,
+  SearchMode,
+} from "../services/codeChunkRepository";
+import { CodeChunkType } from "../services/codeChunkingService";
+import { ChunkSearchFilters } from "../services/searchFilters";
+import { buildOutlineTree } from "../services/chunkOutline";
+import { SimilarCodeService } from "../services/similarCodeService";
+import {
+  ContextBlock,
+  ContextBuilderService,
+  ContextRole,
+} from "../services/contextBuilderService";
+import { getProjectId } from "../server/projectContext";
+
+const SEARCH_MODES: SearchMode[] = ["vector", "lexical", "hybrid"];
+const CHUNK_TYPES: CodeChunkType[] = [
+  "function",
+  "class",
+  "method",
+  "type",
+  "constant",
+];
+
+// 단일 값 또는 배열 인자를 배열로 정규화
+const toArray = <T>(value?: T | T[]): T[] | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
   }
-  return projectId;
+  return Array.isArray(value) ? value : [value];
+};
+
+// 검색 인자에서 필터 추출 및 검증
+const getSearchFilters = (
+  args: Pick<
+    SearchChunksArgs,
+    "types" | "includePaths" | "excludePaths" | "namePrefix" | "namePattern"
+  >
+): ChunkSearchFilters => {
+  const types = toArray(args.types);
+  const invalidType = types?.find((type) => !CHUNK_TYPES.includes(type));
+  if (invalidType) {
+    throw new Error(
+      `지원하지 않는 청크 유형입니다: ${invalidType} (${CHUNK_TYPES.join(
+        ", "
+      )})`
+    );
+  }
+
+  return {
+    types,
+    includePaths: toArray(args.includePaths),
+    excludePaths: toArray(args.excludePaths),
+    namePrefix: args.namePrefix,
+    namePattern: args.namePattern,
+  };
 };
 
 export type SearchChunksArgs = {
   query: string;
   limit?: number;
   threshold?: number;
+  mode?: SearchMode;
+  types?: CodeChunkType[];
+  includePaths?: string[];
+  excludePaths?: string[];
+  namePrefix?: string;
+  namePattern?: string;
+  efSearch?: number;
+  probes?: number;
+};
+
+export type FindSimilarCodeArgs = {
+  chunkId?: string;
+  symbol?: string;
+  path?: string;
+  startLine?: number;
+  endLine?: number;
+  limit?: number;
+  threshold?: number;
+  types?: CodeChunkType[];
+  includePaths?: string[];
+  excludePaths?: string[];
+};
+
+export type BuildContextArgs = {
+  task: string;
+  tokenBudget?: number;
+  limit?: number;
+  expand?: boolean;
+  includePaths?: string[];
+  excludePaths?: string[];
+};
+
+export type FileOutlineArgs = {
+  path?: string;
 };
 
 export type SearchProjectArgs = {
   query: string;
 };
 
+// 검색 결과 점수 표시 (검색 방식에 따라 제공되는 점수만 표시)
+const formatScores = (chunk: ScoredCodeChunk) => {
+  const scores = [`유사도: ${chunk.similarity?.toFixed(2) || "N/A"}`];
+  if (chunk.lexicalScore !== undefined) {
+    scores.push(`전문 검색 점수: ${chunk.lexicalScore.toFixed(3)}`);
+  }
+  if (chunk.score !== undefined) {
+    scores.push(`RRF 점수: ${chunk.score.toFixed(4)}`);
+  }
+  return scores.join(", ");
+};
+
+// 검색 결과 청크 표시 (위치, 일치한 줄, 점수, 코드)
+const formatScoredChunk = (chunk: ScoredCodeChunk) =>
+  `파일: ${chunk.path}\n심볼: ${chunk.symbol} (${chunk.type})\n시작 줄: ${
+    chunk.lineStart
+  }\n종료 줄: ${chunk.lineEnd}${
+    chunk.matchedLines
+      ? `\n일치한 줄: ${chunk.matchedLines.lineStart}-${chunk.matchedLines.lineEnd}`
+      : ""
+  }\n${formatScores(chunk)}\n\n${chunk.code}`;
+
 // 코드 청크 검색 도구
 const searchChunks: Tool<SearchChunksArgs> = {
   name: "search_code_chunks",
   description:
-    "설정된 프로젝트 내에서 코드 청크를 임베딩 벡터를 사용하여 검색합니다",
+    "설정된 프로젝트 내에서 코드 청크를 검색합니다. 벡터 유사도(vector), 전문 검색(lexical), 두 결과를 순위 융합한 하이브리드(hybrid) 방식을 지원합니다",
   inputSchema: {
     type: "object",
     properties: {
@@ -44,9 +147,51 @@ const searchChunks: Tool<SearchChunksArgs> = {
       },
       threshold: {
         type: "number",
-        description: "유사도 임계값",
+        description: "유사도 임계값 (vector, hybrid 모드의 벡터 후보에 적용)",
         default: 0.3,
       },
+      mode: {
+        type: "string",
+        enum: SEARCH_MODES,
+        description:
+          "검색 방식: vector(임베딩 유사도), lexical(식별자/키워드 전문 검색), hybrid(두 결과를 RRF로 병합)",
+        default: "vector",
+      },
+      types: {
+        type: "array",
+        items: { type: "string", enum: CHUNK_TYPES },
+        description: "검색할 청크 유형 (예: [\"type\", \"class\"])",
+      },
+      includePaths: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          "포함할 경로 glob 목록 (예: src/services/**, *.ts). 하나라도 일치하면 포함",
+      },
+      excludePaths: {
+        type: "array",
+        items: { type: "string" },
+        description: "제외할 경로 glob 목록 (예: **/*.test.ts, build/)",
+      },
+      namePrefix: {
+        type: "string",
+        description:
+          "심볼 이름 접두사 (이름 또는 한정 심볼 경로 기준, 예: ProjectService.)",
+      },
+      namePattern: {
+        type: "string",
+        description: "심볼 이름 정규식 (PostgreSQL POSIX 정규식, 예: ^get.*Files$)",
+      },
+      efSearch: {
+        type: "number",
+        description:
+          "HNSW 인덱스 검색 후보 수 (클수록 정확하지만 느림, 최대 1000, 생략 시 VECTOR_EF_SEARCH 또는 40)",
+      },
+      probes: {
+        type: "number",
+        description:
+          "IVFFlat 인덱스 탐색 클러스터 수 (클수록 정확하지만 느림, 생략 시 VECTOR_PROBES 또는 1)",
+      },
     },
     required: ["query"],
   },
@@ -61,11 +206,28 @@ const searchChunks: Tool<SearchChunksArgs> = {
         throw new Error("유효한 검색어(query)가 필요합니다");
       }
 
+      const mode = args.mode || "vector";
+      if (!SEARCH_MODES.includes(mode)) {
+        throw new Error(
+          `지원하지 않는 검색 방식입니다: ${mode} (${SEARCH_MODES.join(", ")})`
+        );
+      }
+      const limit = args.limit || 10;
+      const threshold = args.threshold || 0.3;
+      const filters = getSearchFilters(args);
+      for (const name of ["efSearch", "probes"] as const) {
+        const value = args[name];
+        if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+          throw new Error(`${name}은(는) 양의 정수여야 합니다: ${value}`);
+        }
+      }
+      const tuning = { efSearch: args.efSearch, probes: args.probes };
+
       // 디버깅을 위한 로깅
       console.error(
-        `코드 청크 검색 시작: 쿼리="${args.query}", 제한=${
-          args.limit || 10
-        }, 임계값=${args.threshold || 0.3}`
+        `코드 청크 검색 시작: 쿼리="${args.query}", 방식=${mode}, 제한=${limit}, 임계값=${threshold}, 필터=${JSON.stringify(
+          filters
+        )}`
       );
 
       const projectId = getProjectId();
@@ -81,38 +243,57 @@ const searchChunks: Tool<SearchChunksArgs> = {
         throw new Error("프로젝트를 찾을 수 없습니다");
       }
 
-      // 임베딩 생성
-      console.error(`임베딩 생성 시작: "${args.query}"`);
-      const embeddingService = new EmbeddingService();
-      const queryEmbedding = await embeddingService.generateEmbedding(
-        args.query
-      );
-      console.error(`임베딩 생성 완료: 차원 ${queryEmbedding.length}`);
-
       // CodeChunkRepository 싱글톤 인스턴스 사용
       const repository = CodeChunkRepository.getInstance();
 
-      // 코드 청크 검색
-      console.error(`코드 청크 검색 시작: 프로젝트 ID=${projectId}`);
-      const chunks = await repository.searchCodeChunksByCosine(
-        projectId,
-        queryEmbedding,
-        args.limit || 10,
-        args.threshold || 0.3
-      );
-      console.error(`검색 결과: ${chunks.length}개 청크 발견`);
+      let chunks: ScoredCodeChunk[];
+      if (mode === "lexical") {
+        // 전문 검색은 임베딩 없이 수행
+        chunks = await repository.searchCodeChunksByText(
+          projectId,
+          args.query,
+          limit,
+          filters
+        );
+      } else {
+        // 임베딩 생성
+        console.error(`임베딩 생성 시작: "${args.query}"`);
+        const embeddingService = new EmbeddingService();
+        // 프로젝트 색인에 사용한 모델과 같은 모델로만 쿼리 임베딩 생성
+        embeddingService.assertCompatibleWithProject(project);
+        const queryEmbedding = await embeddingService.generateEmbedding(
+          args.query
+        );
+        console.error(`임베딩 생성 완료: 차원 ${queryEmbedding.length}`);
 
-      // similarity 속성이 있음을 명시적으로 표현
-      interface CodeChunkWithSimilarity extends CodeChunkDto {
-        similarity?: number;
+        // 코드 청크 검색
+        console.error(`코드 청크 검색 시작: 프로젝트 ID=${projectId}`);
+        chunks =
+          mode === "hybrid"
+            ? await repository.searchCodeChunksHybrid(
+                projectId,
+                args.query,
+                queryEmbedding,
+                limit,
+                threshold,
+                filters,
+                tuning
+              )
+            : await repository.searchCodeChunksByCosine(
+                projectId,
+                queryEmbedding,
+                limit,
+                threshold,
+                filters,
+                tuning
+              );
       }
+      console.error(`검색 결과: ${chunks.length}개 청크 발견`);
 
       return {
-        content: chunks.map((chunk: CodeChunkWithSimilarity) => ({
+        content: chunks.map((chunk) => ({
           type: "text",
-          text: `파일: ${chunk.path}\n시작 줄: ${chunk.lineStart}\n종료 줄: ${
-            chunk.lineEnd
-          }\n유사도: ${chunk.similarity?.toFixed(2) || "N/A"}\n\n${chunk.code}`,
+          text: formatScoredChunk(chunk),
         })),
       };
     } catch (error: unknown) {
@@ -140,4 +321,362 @@ const searchChunks: Tool<SearchChunksArgs> = {
   },
 };
 
-export const codeTools = [searchChunks];
+// 유사 코드 검색 도구
+const findSimilarCode: Tool<FindSimilarCodeArgs> = {
+  name: "find_similar_code",
+  description:
+    "기존 코드와 비슷한 코드를 프로젝트에서 찾습니다. 기준 코드는 청크 ID, 심볼 이름, 또는 파일 경로와 줄 범위 중 하나로 지정하며, 기준 코드 자체(같은 파일에서 범위가 겹치는 청크)는 결과에서 제외됩니다",
+  inputSchema: {
+    type: "object",
+    properties: {
+      chunkId: {
+        type: "string",
+        description: "기준 청크 ID",
+      },
+      symbol: {
+        type: "string",
+        description:
+          "기준 심볼 (이름 또는 한정 심볼 경로 예: ProjectService.analyzeProject)",
+      },
+      path: {
+        type: "string",
+        description: "기준 코드 파일 경로 (startLine, endLine과 함께 사용)",
+      },
+      startLine: {
+        type: "number",
+        description: "기준 코드 시작 줄 (1부터 시작)",
+      },
+      endLine: {
+        type: "number",
+        description: "기준 코드 끝 줄 (포함)",
+      },
+      limit: {
+        type: "number",
+        description: "검색 결과 제한",
+        default: 10,
+      },
+      threshold: {
+        type: "number",
+        description: "유사도 임계값",
+        default: 0.3,
+      },
+      types: {
+        type: "array",
+        items: { type: "string", enum: CHUNK_TYPES },
+        description: "검색할 청크 유형 (예: [\"function\", \"method\"])",
+      },
+      includePaths: {
+        type: "array",
+        items: { type: "string" },
+        description: "포함할 경로 glob 목록 (예: src/services/**)",
+      },
+      excludePaths: {
+        type: "array",
+        items: { type: "string" },
+        description: "제외할 경로 glob 목록 (예: **/*.test.ts)",
+      },
+    },
+    required: [],
+  },
+  async execute(args) {
+    try {
+      if (!args || typeof args !== "object") {
+        throw new Error("유효하지 않은 인자 형식: 객체가 필요합니다");
+      }
+
+      // 기준 코드는 정확히 한 가지 방식으로 지정
+      const seedKinds = [
+        args.chunkId !== undefined,
+        args.symbol !== undefined,
+        args.path !== undefined,
+      ].filter(Boolean).length;
+      if (seedKinds !== 1) {
+        throw new Error(
+          "기준 코드는 chunkId, symbol, path(+startLine, endLine) 중 하나로 지정해야 합니다"
+        );
+      }
+      if (
+        args.path !== undefined &&
+        (args.startLine === undefined || args.endLine === undefined)
+      ) {
+        throw new Error("path로 지정할 때는 startLine과 endLine이 필요합니다");
+      }
+
+      const projectId = getProjectId();
+      const similarCodeService = SimilarCodeService.getInstance();
+      const { seed, reusedEmbedding, matches } =
+        await similarCodeService.findSimilar(
+          projectId,
+          args.chunkId
+            ? { chunkId: args.chunkId }
+            : args.symbol
+            ? { symbol: args.symbol }
+            : {
+                path: args.path!,
+                startLine: args.startLine!,
+                endLine: args.endLine!,
+              },
+          {
+            limit: args.limit || 10,
+            threshold: args.threshold || 0.3,
+            filters: getSearchFilters(args),
+          }
+        );
+
+      const seedLabel = `${
+        seed.chunk ? `${seed.chunk.symbol} (${seed.chunk.type}) ` : ""
+      }${seed.path}:${seed.lineStart}-${seed.lineEnd}`;
+      console.error(
+        `유사 코드 검색 결과: 기준=${seedLabel}, ${matches.length}개 청크 발견 (저장된 임베딩 ${
+          reusedEmbedding ? "재사용" : "없음, 새로 임베딩"
+        })`
+      );
+
+      if (matches.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${seedLabel}와(과) 비슷한 코드를 찾을 수 없습니다`,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          { type: "text", text: `기준 코드: ${seedLabel}` },
+          ...matches.map((chunk) => ({
+            type: "text",
+            text: formatScoredChunk(chunk),
+          })),
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "알 수 없는 오류가 발생했습니다";
+      console.error(`유사 코드 검색 오류: ${errorMessage}`);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `유사 코드 검색 중 오류가 발생했습니다: ${errorMessage}`,
+          },
+        ],
+      };
+    }
+  },
+};
+
+// 컨텍스트 번들 블록의 포함 이유 표시
+const CONTEXT_ROLE_LABELS: Record<ContextRole, string> = {
+  search: "검색 결과",
+  dependency: "의존성",
+  dependent: "피의존성",
+};
+
+// 컨텍스트 블록 표시 (path:lines 인용, 출처 청크, 코드)
+const formatContextBlock = (block: ContextBlock, index: number) => {
+  const sources = block.sources
+    .map(
+      (source) =>
+        `${source.symbol} (${source.type}, ${CONTEXT_ROLE_LABELS[source.role]}${
+          source.via ? ` ← ${source.via}` : ""
+        })`
+    )
+    .join(", ");
+  return `## ${index + 1}. ${block.path}:${block.lineStart}-${
+    block.lineEnd
+  }\n출처: ${sources}\n\n\`\`\`\n${block.code}\n\`\`\``;
+};
+
+// 컨텍스트 번들 도구
+const buildContext: Tool<BuildContextArgs> = {
+  name: "build_context",
+  description:
+    "작업 설명에 필요한 코드를 토큰 예산 안의 번들 하나로 모아 반환합니다. 관련 청크를 검색하고 저장된 의존성 그래프로 직접 의존성/피의존성을 추가한 뒤, 겹치는 줄 범위를 합쳐 관련도 순으로 path:lines 인용과 함께 제공합니다. search_code_chunks 후 read_file을 여러 번 호출하는 대신 사용하세요",
+  inputSchema: {
+    type: "object",
+    properties: {
+      task: {
+        type: "string",
+        description: "작업 설명 (예: 프로젝트 삭제 시 벡터 인덱스도 정리하기)",
+      },
+      tokenBudget: {
+        type: "number",
+        description: "번들 전체의 최대 토큰 수",
+        default: 8000,
+      },
+      limit: {
+        type: "number",
+        description: "검색으로 가져올 청크 수",
+        default: 8,
+      },
+      expand: {
+        type: "boolean",
+        description: "검색 결과의 직접 의존성/피의존성을 포함할지 여부",
+        default: true,
+      },
+      includePaths: {
+        type: "array",
+        items: { type: "string" },
+        description: "검색할 경로 glob 목록 (예: src/services/**)",
+      },
+      excludePaths: {
+        type: "array",
+        items: { type: "string" },
+        description: "검색에서 제외할 경로 glob 목록 (예: **/*.test.ts)",
+      },
+    },
+    required: ["task"],
+  },
+  async execute(args) {
+    try {
+      if (!args || typeof args !== "object") {
+        throw new Error("유효하지 않은 인자 형식: 객체가 필요합니다");
+      }
+
+      if (!args.task || typeof args.task !== "string") {
+        throw new Error("유효한 작업 설명(task)이 필요합니다");
+      }
+
+      const tokenBudget = args.tokenBudget || 8000;
+      if (!Number.isInteger(tokenBudget) || tokenBudget <= 0) {
+        throw new Error(
+          `토큰 예산(tokenBudget)은 양의 정수여야 합니다: ${tokenBudget}`
+        );
+      }
+
+      const projectId = getProjectId();
+      const bundle = await ContextBuilderService.getInstance().buildContext(
+        projectId,
+        args.task,
+        {
+          tokenBudget,
+          limit: args.limit || 8,
+          expand: args.expand,
+          filters: getSearchFilters(args),
+        }
+      );
+      console.error(
+        `컨텍스트 번들 생성: 블록 ${bundle.blocks.length}개, ${bundle.usedTokens}/${bundle.tokenBudget} 토큰, 제외 ${bundle.omitted.length}개`
+      );
+
+      if (bundle.blocks.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `작업과 관련된 코드를 찾을 수 없습니다: ${args.task}`,
+            },
+          ],
+        };
+      }
+
+      const sections = [
+        `작업: ${bundle.task}\n토큰: 약 ${bundle.usedTokens}/${bundle.tokenBudget} (블록 ${bundle.blocks.length}개)`,
+        ...bundle.blocks.map(formatContextBlock),
+      ];
+      if (bundle.omitted.length > 0) {
+        sections.push(
+          `예산 초과로 제외된 청크:\n${bundle.omitted
+            .map(
+              (chunk) =>
+                `- ${chunk.path}:${chunk.lineStart}-${chunk.lineEnd} ${
+                  chunk.symbol
+                } (${CONTEXT_ROLE_LABELS[chunk.role]})`
+            )
+            .join("\n")}`
+        );
+      }
+
+      return {
+        content: [{ type: "text", text: sections.join("\n\n") }],
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "알 수 없는 오류가 발생했습니다";
+      console.error(`컨텍스트 번들 생성 오류: ${errorMessage}`);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `컨텍스트 번들 생성 중 오류가 발생했습니다: ${errorMessage}`,
+          },
+        ],
+      };
+    }
+  },
+};
+
+// 파일 개요 도구
+const getFileOutline: Tool<FileOutlineArgs> = {
+  name: "get_file_outline",
+  description:
+    "파일 또는 디렉토리(하위 전체)에 정의된 심볼 목록을 유형, 이름, 줄 범위, 의존성/피의존성 수와 함께 트리로 반환합니다. 분석된 코드 청크를 기반으로 하므로 파일을 다시 파싱하지 않습니다",
+  inputSchema: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description:
+          "프로젝트 기준 파일 또는 디렉토리 경로 (생략 시 프로젝트 전체)",
+      },
+    },
+    required: [],
+  },
+  async execute(args) {
+    try {
+      const targetPath = args?.path || "";
+      if (typeof targetPath !== "string") {
+        throw new Error("경로(path)는 문자열이어야 합니다");
+      }
+
+      const projectId = getProjectId();
+      const repository = CodeChunkRepository.getInstance();
+      const entries = await repository.getChunkOutline(projectId, targetPath);
+
+      if (entries.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${
+                targetPath || "프로젝트"
+              }에서 심볼을 찾을 수 없습니다 (지원하지 않는 파일이거나 아직 분석되지 않았습니다)`,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [{ type: "text", text: buildOutlineTree(entries) }],
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "알 수 없는 오류가 발생했습니다";
+      console.error(`파일 개요 조회 오류: ${errorMessage}`);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `파일 개요 조회 중 오류가 발생했습니다: ${errorMessage}`,
+          },
+        ],
+      };
+    }
+  },
+};
+
+export const codeTools = [
+  searchChunks,
+  findSimilarCode,
+  buildContext,
+  getFileOutline,
+];
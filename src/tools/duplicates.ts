@@ -0,0 +1,129 @@
+import { Tool } from "../types/tool";
+import {
+  DuplicateCluster,
+  DuplicateCodeService,
+  DuplicateReport,
+} from "../services/duplicateCodeService";
+import { getProjectId } from "../server/projectContext";
+
+export type FindDuplicatesArgs = {
+  threshold?: number;
+  minLines?: number;
+  limit?: number;
+};
+
+// 클러스터 한 개 표시 (유사도 범위와 청크별 경로:줄 범위)
+const formatCluster = (cluster: DuplicateCluster, index: number) => {
+  const similarity =
+    cluster.kind === "exact"
+      ? "정확히 일치"
+      : cluster.minSimilarity === cluster.maxSimilarity
+      ? `유사도 ${cluster.maxSimilarity.toFixed(3)}`
+      : `유사도 ${cluster.minSimilarity.toFixed(
+          3
+        )}-${cluster.maxSimilarity.toFixed(3)}`;
+  const members = cluster.members.map(
+    (member) =>
+      `  - ${member.path}:${member.lineStart}-${member.lineEnd} ${
+        member.symbol
+      } (${member.type})${
+        cluster.kind === "near"
+          ? ` 최고 유사도 ${member.similarity.toFixed(3)}`
+          : ""
+      }`
+  );
+  return [
+    `${index + 1}. ${cluster.members.length}개 청크, ${similarity}`,
+    ...members,
+  ].join("\n");
+};
+
+/**
+ * 중복 코드 보고서를 텍스트로 변환합니다 (find-duplicates CLI와 MCP 도구 공용).
+ */
+export const formatDuplicateReport = (report: DuplicateReport) => {
+  const section = (
+    title: string,
+    clusters: DuplicateCluster[],
+    total: number
+  ) =>
+    [
+      `## ${title} (${total}개 클러스터${
+        total > clusters.length ? `, 상위 ${clusters.length}개 표시` : ""
+      })`,
+      clusters.length > 0
+        ? clusters.map(formatCluster).join("\n\n")
+        : "  없음",
+    ].join("\n\n");
+
+  return [
+    `중복 코드 보고서 (유사도 임계값 ${report.threshold}, 최소 ${report.minLines}줄)`,
+    section(
+      "정확한 중복 (공백 정규화 후 코드 동일)",
+      report.exact,
+      report.totalExact
+    ),
+    section("유사 중복 (임베딩 코사인 유사도)", report.near, report.totalNear),
+  ].join("\n\n");
+};
+
+// 중복 코드 탐지 도구
+const findDuplicates: Tool<FindDuplicatesArgs> = {
+  name: "find_duplicate_code",
+  description:
+    "프로젝트에서 중복 코드를 찾아 클러스터로 보고합니다. 공백을 정규화한 코드가 같은 정확한 중복과, 저장된 임베딩의 코사인 유사도가 임계값 이상인 유사 중복을 경로, 줄 범위, 유사도와 함께 반환합니다",
+  inputSchema: {
+    type: "object",
+    properties: {
+      threshold: {
+        type: "number",
+        description: "유사 중복으로 묶을 최소 코사인 유사도 (0-1)",
+        default: 0.9,
+      },
+      minLines: {
+        type: "number",
+        description: "이보다 짧은 청크는 제외",
+        default: 3,
+      },
+      limit: {
+        type: "number",
+        description: "종류별 최대 클러스터 수",
+        default: 50,
+      },
+    },
+    required: [],
+  },
+  async execute(args) {
+    try {
+      const projectId = getProjectId();
+      const report = await DuplicateCodeService.getInstance().findDuplicates(
+        projectId,
+        {
+          threshold: args?.threshold,
+          minLines: args?.minLines,
+          limit: args?.limit,
+        }
+      );
+
+      return {
+        content: [{ type: "text", text: formatDuplicateReport(report) }],
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "알 수 없는 오류가 발생했습니다";
+      console.error(`중복 코드 탐지 오류: ${errorMessage}`);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `중복 코드 탐지 중 오류가 발생했습니다: ${errorMessage}`,
+          },
+        ],
+      };
+    }
+  },
+};
+
+export const duplicateTools = [findDuplicates];
@@ -4,24 +4,81 @@ import { projects } from "../db/schema.js";
 import { eq } from "drizzle-orm";
 import * as path from "path";
 import * as fs from "fs/promises";
-
-// 환경 변수에서 프로젝트 ID 가져오기
-const getProjectId = () => {
-  const projectId = process.env.PROJECT_ID;
-  if (!projectId) {
-    throw new Error("PROJECT_ID 환경 변수가 설정되지 않았습니다");
-  }
-  return projectId;
-};
+import { getProjectId } from "../server/projectContext.js";
+import { CodeChunkRepository } from "../services/codeChunkRepository.js";
 
 export type ListFilesArgs = {
   directory?: string;
 };
 
 export type ReadFileArgs = {
-  filePath: string;
+  filePath?: string;
+  startLine?: number;
+  endLine?: number;
+  symbol?: string;
+  lineNumbers?: boolean;
+  maxLines?: number;
+  maxBytes?: number;
+};
+
+// 한 번에 반환할 기본 최대 줄 수와 바이트 수 (큰 생성 파일이 클라이언트 컨텍스트를 채우지 않도록)
+const DEFAULT_MAX_LINES = 500;
+const DEFAULT_MAX_BYTES = 50_000;
+
+// 양의 정수 인자 검증 (없으면 undefined)
+const optionalPositiveInteger = (value: unknown, name: string) => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    throw new Error(`${name}은(는) 1 이상의 정수여야 합니다: ${value}`);
+  }
+  return value;
 };
 
+// 심볼 이름으로 파일 경로와 줄 범위 조회 (filePath를 함께 지정하면 해당 파일로 한정)
+const resolveSymbolRange = async (
+  projectId: string,
+  symbol: string,
+  filePath?: string
+) => {
+  const candidates = (
+    await CodeChunkRepository.getInstance().findCodeChunksBySymbol(
+      projectId,
+      symbol
+    )
+  ).filter(
+    (chunk) => !filePath || path.normalize(chunk.path) === path.normalize(filePath)
+  );
+  if (candidates.length === 0) {
+    throw new Error(
+      `심볼을 찾을 수 없습니다: ${symbol}${filePath ? ` (${filePath})` : ""}`
+    );
+  }
+
+  // 한정 심볼 경로가 정확히 일치하는 청크가 하나면 이름만 같은 청크보다 우선
+  const exact = candidates.filter((chunk) => chunk.symbol === symbol);
+  const chunk = exact.length === 1 ? exact[0] : candidates[0];
+  if (exact.length !== 1 && candidates.length > 1) {
+    throw new Error(
+      `심볼 ${symbol}에 해당하는 청크가 여러 개입니다. filePath를 함께 지정하거나 한정 심볼 경로를 사용하세요:\n${candidates
+        .map(
+          (candidate) =>
+            `- ${candidate.symbol} (${candidate.type}) ${candidate.path}:${candidate.lineStart}-${candidate.lineEnd}`
+        )
+        .join("\n")}`
+    );
+  }
+  return chunk;
+};
+
+// 바이트 수 기준으로 문자열 자르기 (잘린 멀티바이트 문자는 제거)
+const truncateToBytes = (text: string, maxBytes: number) =>
+  Buffer.from(text, "utf-8")
+    .subarray(0, maxBytes)
+    .toString("utf-8")
+    .replace(/\uFFFD$/, "");
+
 // 파일 목록 조회 도구
 const listFiles: Tool<ListFilesArgs> = {
   name: "list_files",
@@ -87,19 +144,72 @@ const listFiles: Tool<ListFilesArgs> = {
 // 파일 읽기 도구
 const readFile: Tool<ReadFileArgs> = {
   name: "read_file",
-  description: "프로젝트 내 파일 내용을 읽습니다",
+  description:
+    "프로젝트 내 파일 내용을 읽습니다. 줄 범위(startLine/endLine) 또는 심볼 이름(symbol)으로 필요한 부분만 읽을 수 있으며, 최대 줄/바이트 수를 넘으면 잘림 표시와 함께 이어 읽을 위치를 알려줍니다",
   inputSchema: {
     type: "object",
     properties: {
       filePath: {
         type: "string",
-        description: "파일 경로",
+        description: "파일 경로 (symbol을 지정하면 생략 가능)",
+      },
+      startLine: {
+        type: "number",
+        description: "읽기 시작할 줄 (1부터 시작)",
+      },
+      endLine: {
+        type: "number",
+        description: "마지막으로 읽을 줄 (포함)",
+      },
+      symbol: {
+        type: "string",
+        description:
+          "읽을 심볼 (이름 또는 한정 심볼 경로 예: ProjectService.analyzeProject, 분석된 청크의 줄 범위를 사용)",
+      },
+      lineNumbers: {
+        type: "boolean",
+        description: "각 줄 앞에 줄 번호를 붙일지 여부 (path:line 인용용)",
+        default: false,
+      },
+      maxLines: {
+        type: "number",
+        description: "반환할 최대 줄 수",
+        default: DEFAULT_MAX_LINES,
+      },
+      maxBytes: {
+        type: "number",
+        description: "반환할 최대 바이트 수",
+        default: DEFAULT_MAX_BYTES,
       },
     },
-    required: ["filePath"],
+    required: [],
   },
   async execute(args) {
     try {
+      if (!args || typeof args !== "object") {
+        throw new Error("유효하지 않은 인자 형식: 객체가 필요합니다");
+      }
+      if (!args.filePath && !args.symbol) {
+        throw new Error("파일 경로(filePath) 또는 심볼(symbol)이 필요합니다");
+      }
+      if (args.symbol && (args.startLine || args.endLine)) {
+        throw new Error(
+          "심볼(symbol)과 줄 범위(startLine/endLine)는 함께 지정할 수 없습니다"
+        );
+      }
+
+      let startLine = optionalPositiveInteger(args.startLine, "startLine");
+      let endLine = optionalPositiveInteger(args.endLine, "endLine");
+      const maxLines =
+        optionalPositiveInteger(args.maxLines, "maxLines") ?? DEFAULT_MAX_LINES;
+      const maxBytes =
+        optionalPositiveInteger(args.maxBytes, "maxBytes") ?? DEFAULT_MAX_BYTES;
+      if (startLine && endLine && endLine < startLine) {
+        throw new Error(
+          `잘못된 줄 범위입니다: ${startLine}-${endLine} (시작 줄 <= 끝 줄이어야 합니다)`
+        );
+      }
+
       const projectId = getProjectId();
 
       const projectList = await db
@@ -112,19 +222,109 @@ const readFile: Tool<ReadFileArgs> = {
         throw new Error("프로젝트를 찾을 수 없습니다");
       }
 
-      const targetPath = path.join(project.path, args.filePath);
+      // 심볼로 지정하면 분석된 청크의 파일과 줄 범위 사용
+      let filePath = args.filePath || "";
+      let symbolLabel: string | null = null;
+      if (args.symbol) {
+        const chunk = await resolveSymbolRange(
+          projectId,
+          args.symbol,
+          args.filePath
+        );
+        filePath = chunk.path;
+        startLine = chunk.lineStart;
+        endLine = chunk.lineEnd;
+        symbolLabel = `${chunk.symbol} (${chunk.type})`;
+      }
+
+      const targetPath = path.join(project.path, filePath);
       if (!targetPath.startsWith(project.path)) {
         throw new Error("프로젝트 경로를 벗어난 접근입니다");
       }
 
       const content = await fs.readFile(targetPath, "utf-8");
+      const lines = content.split(/\r?\n/);
+      // 마지막 줄바꿈 뒤의 빈 줄은 줄 수에 포함하지 않음
+      if (lines.length > 1 && lines[lines.length - 1] === "") {
+        lines.pop();
+      }
+      const totalLines = lines.length;
+
+      const first = startLine ?? 1;
+      const last = Math.min(endLine ?? totalLines, totalLines);
+      if (first > totalLines) {
+        throw new Error(
+          `시작 줄이 파일 길이(${totalLines}줄)를 벗어납니다: ${filePath}:${first}`
+        );
+      }
+
+      // 줄 번호 너비는 범위의 마지막 줄 기준
+      const width = String(last).length;
+      const formatLine = (lineNumber: number, text: string) =>
+        args.lineNumbers
+          ? `${String(lineNumber).padStart(width)} | ${text}`
+          : text;
+
+      const output: string[] = [];
+      let bytes = 0;
+      // 잘린 원인이 된 제한 (잘리지 않았으면 null)
+      let truncatedBy: "lines" | "bytes" | null = null;
+      // 한 줄이 바이트 제한보다 길어 일부만 표시했는지 여부
+      let partialLine = false;
+      for (let lineNumber = first; lineNumber <= last; lineNumber++) {
+        if (output.length >= maxLines) {
+          truncatedBy = "lines";
+          break;
+        }
+        const text = formatLine(lineNumber, lines[lineNumber - 1]);
+        const size = Buffer.byteLength(text, "utf-8") + 1;
+        if (bytes + size > maxBytes) {
+          if (output.length === 0) {
+            output.push(truncateToBytes(text, maxBytes));
+            partialLine = true;
+          }
+          truncatedBy = "bytes";
+          break;
+        }
+        output.push(text);
+        bytes += size;
+      }
+      const truncated = truncatedBy !== null;
+
+      // 범위를 지정하지 않았고 잘리지 않았으면 파일 내용을 그대로 반환
+      const ranged = startLine !== undefined || endLine !== undefined;
+      if (!ranged && !truncated && !args.lineNumbers) {
+        return { content: [{ type: "text", text: content }] };
+      }
+
+      const shownEnd = first + output.length - 1;
+      const header = [
+        `파일: ${filePath} (줄 ${first}-${shownEnd}, 전체 ${totalLines}줄)`,
+        ...(symbolLabel ? [`심볼: ${symbolLabel}`] : []),
+      ];
+      const parts = [header.join("\n"), output.join("\n")];
+      if (truncated) {
+        const limit =
+          truncatedBy === "lines"
+            ? `최대 ${maxLines}줄`
+            : `최대 ${maxBytes}바이트`;
+        const notes = [
+          ...(partialLine ? [`${shownEnd}줄은 일부만 표시`] : []),
+          ...(shownEnd < last
+            ? [
+                `${
+                  shownEnd + 1 === last ? last : `${shownEnd + 1}-${last}`
+                }줄 생략, startLine=${
+                  shownEnd + 1
+                }로 이어서 읽으세요`,
+              ]
+            : []),
+        ];
+        parts.push(`... [잘림: ${limit} 제한으로 ${notes.join(", ")}]`);
+      }
+
       return {
-        content: [
-          {
-            type: "text",
-            text: content,
-          },
-        ],
+        content: [{ type: "text", text: parts.join("\n") }],
       };
     } catch (error: any) {
       return {
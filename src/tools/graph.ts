@@ -0,0 +1,131 @@
+import { Tool } from "../types/tool";
+import { CodeChunk } from "../services/codeChunkingService";
+import {
+  DependencyDirection,
+  DependencyGraphService,
+  RelatedChunk,
+} from "../services/dependencyGraphService";
+import { getProjectId } from "../server/projectContext";
+
+export type DependencyGraphArgs = {
+  symbol: string;
+  depth?: number;
+  transitive?: boolean;
+  includeCode?: boolean;
+};
+
+// 청크 위치 표시 (심볼, 유형, 경로:줄 범위)
+const formatChunkLocation = (chunk: CodeChunk) =>
+  `${chunk.symbol} (${chunk.type}) ${chunk.path}:${chunk.lineStart}-${chunk.lineEnd}`;
+
+const formatRelatedChunk = (related: RelatedChunk, includeCode?: boolean) => {
+  const header = `[depth ${related.depth}] ${formatChunkLocation(
+    related.chunk
+  )} ← ${related.via}`;
+  return includeCode ? `${header}\n\n${related.chunk.code}` : header;
+};
+
+// 방향별 의존성 그래프 도구 생성
+const createGraphTool = (
+  name: string,
+  direction: DependencyDirection,
+  description: string
+): Tool<DependencyGraphArgs> => ({
+  name,
+  description,
+  inputSchema: {
+    type: "object",
+    properties: {
+      symbol: {
+        type: "string",
+        description:
+          "시작 심볼 (이름, 한정 심볼 경로 예: ProjectService.analyzeProject, 또는 청크 ID)",
+      },
+      depth: {
+        type: "number",
+        description: "전이 탐색 시 최대 깊이 (최대 10)",
+        default: 3,
+      },
+      transitive: {
+        type: "boolean",
+        description: "간접 관계까지 탐색할지 여부 (false면 직접 관계만 반환)",
+        default: false,
+      },
+      includeCode: {
+        type: "boolean",
+        description: "관련 청크의 코드 포함 여부",
+        default: false,
+      },
+    },
+    required: ["symbol"],
+  },
+  async execute(args) {
+    try {
+      if (!args || typeof args !== "object") {
+        throw new Error("유효하지 않은 인자 형식: 객체가 필요합니다");
+      }
+
+      if (!args.symbol || typeof args.symbol !== "string") {
+        throw new Error("유효한 심볼(symbol)이 필요합니다");
+      }
+
+      const projectId = getProjectId();
+      const graphService = DependencyGraphService.getInstance();
+      const { roots, related } = await graphService.traverse(
+        projectId,
+        args.symbol,
+        direction,
+        { depth: args.depth, transitive: args.transitive }
+      );
+
+      const lines = [
+        `시작 심볼:`,
+        ...roots.map((chunk) => `  ${formatChunkLocation(chunk)}`),
+        "",
+        related.length > 0
+          ? `${related.length}개의 관련 청크를 찾았습니다:`
+          : "관련 청크가 없습니다",
+      ];
+
+      return {
+        content: [
+          { type: "text", text: lines.join("\n") },
+          ...related.map((item) => ({
+            type: "text",
+            text: formatRelatedChunk(item, args.includeCode),
+          })),
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "알 수 없는 오류가 발생했습니다";
+      console.error(`의존성 그래프 조회 오류: ${errorMessage}`);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `의존성 그래프 조회 중 오류가 발생했습니다: ${errorMessage}`,
+          },
+        ],
+      };
+    }
+  },
+});
+
+// 의존성 조회 도구 (심볼이 사용하는 청크)
+const getDependencies = createGraphTool(
+  "get_dependencies",
+  "dependencies",
+  "심볼이 의존하는(사용하는) 코드 청크를 조회합니다. 직접 의존성 또는 깊이 제한이 있는 전이 의존성을 경로와 줄 범위와 함께 반환합니다"
+);
+
+// 피의존성 조회 도구 (심볼을 사용하는 청크)
+const getDependents = createGraphTool(
+  "get_dependents",
+  "dependents",
+  "심볼에 의존하는(심볼을 사용하는) 코드 청크를 조회합니다. 직접 관계 또는 깊이 제한이 있는 전이 관계를 경로와 줄 범위와 함께 반환합니다"
+);
+
+export const graphTools = [getDependencies, getDependents];
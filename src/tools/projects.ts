@@ -0,0 +1,341 @@
+import { Tool } from "../types/tool";
+import {
+  ProjectAnalysisResult,
+  ProjectAnalysisRun,
+  ProjectService,
+  ProjectStatus,
+} from "../services/projectService";
+import {
+  getProjectId,
+  getSelectedProjectId,
+  setSessionProjectId,
+} from "../server/projectContext";
+
+export type ProjectArgs = {
+  // 프로젝트 ID 또는 이름 (projectId 인자는 서버가 제거하므로 사용하지 않음)
+  project?: string;
+};
+
+export type AnalyzeProjectArgs = ProjectArgs & {
+  forceRefresh?: boolean;
+};
+
+// 인자로 지정한 프로젝트, 없으면 세션에서 선택된 프로젝트 ID
+const resolveTargetProjectId = async (project?: string) => {
+  if (project !== undefined && typeof project !== "string") {
+    throw new Error("프로젝트(project)는 ID 또는 이름 문자열이어야 합니다");
+  }
+  return project
+    ? (await ProjectService.getInstance().resolveProject(project)).id
+    : getProjectId();
+};
+
+const formatProjectStatus = (status: ProjectStatus) => {
+  const { project, stats } = status;
+  const model = project.embeddingModel
+    ? `${project.embeddingProvider}/${project.embeddingModel} (${project.embeddingDimensions}차원)`
+    : "없음 (아직 분석하지 않음)";
+
+  let analysis: string;
+  if (!project.lastCommitHash) {
+    analysis = "분석 기록 없음";
+  } else if (!status.changedFiles || status.changedFiles.length === 0) {
+    analysis = `최신 (커밋 ${project.lastCommitHash})`;
+  } else {
+    analysis = `마지막 분석 커밋 ${project.lastCommitHash} 이후 ${
+      status.changedFiles.length
+    }개 파일 변경 (현재 ${status.currentCommitHash})\n${status.changedFiles
+      .map((file) => `  - ${file}`)
+      .join("\n")}`;
+  }
+
+  const lines = [
+    `프로젝트: ${project.name} (${project.id})`,
+    `경로: ${project.path}`,
+    ...(project.description ? [`설명: ${project.description}`] : []),
+    `분석 상태: ${analysis}`,
+    `파일 ${stats.files}개, 청크 ${stats.chunks}개`,
+    `임베딩: 완료 ${stats.embeddingStatus.embedded}개, 재시도 대기 ${stats.embeddingStatus.pending}개, 건너뜀 ${stats.embeddingStatus.skipped}개`,
+    `임베딩 모델: ${model}`,
+  ];
+  if (project.stagingEmbeddingModel) {
+    lines.push(
+      `재임베딩 진행 중: ${project.stagingEmbeddingModel} (${project.stagingEmbeddingDimensions}차원), ${stats.stagedEmbeddings}/${stats.chunks}개 준비됨`
+    );
+  }
+  lines.push(
+    status.vectorIndexes.length > 0
+      ? `벡터 인덱스: ${status.vectorIndexes
+          .map(
+            (index) =>
+              `${index.name} (${index.method}${index.valid ? "" : ", 무효"})`
+          )
+          .join(", ")}`
+      : "벡터 인덱스: 없음 (순차 검색)"
+  );
+  return lines.join("\n");
+};
+
+const formatAnalysisResult = (result: ProjectAnalysisResult) =>
+  [
+    `프로젝트 분석 완료: ${result.projectId}`,
+    `분석한 파일 ${result.analyzedFiles}개, 청크 ${result.totalChunks}개`,
+    `추가 ${result.addedChunks}개, 갱신 ${result.updatedChunks}개, 제거 ${result.removedChunks}개`,
+    `임베딩 재시도 성공 ${result.retriedEmbeddings}개, 재시도 대기 ${result.pendingEmbeddings}개`,
+    ...(result.currentCommitHash
+      ? [`커밋: ${result.currentCommitHash}`]
+      : []),
+    ...(result.changedFiles
+      ? [`변경된 파일 ${result.changedFiles.length}개`]
+      : []),
+    ...(result.failedFiles
+      ? [`청킹 실패(다음 분석 때 재시도) 파일: ${result.failedFiles.join(", ")}`]
+      : []),
+  ].join("\n");
+
+// 경과 시간 (초 단위)
+const formatElapsed = (from: Date, to: Date = new Date()) =>
+  `${Math.round((to.getTime() - from.getTime()) / 1000)}초`;
+
+// 진행 중이거나 마지막으로 끝난 분석 상태
+const formatAnalysisRun = (run: ProjectAnalysisRun) => {
+  const mode = run.forceRefresh ? "전체 재분석" : "변경 분석";
+  if (!run.finishedAt) {
+    return `분석 진행 중 (${mode}, ${formatElapsed(run.startedAt)} 경과): ${run.stage}`;
+  }
+  const finished = `${run.finishedAt.toISOString()}, ${formatElapsed(
+    run.startedAt,
+    run.finishedAt
+  )} 소요`;
+  if (run.error) {
+    return `마지막 분석 실패 (${mode}, ${finished}): ${run.error}\n실패한 단계: ${run.stage}`;
+  }
+  return `마지막 분석 (${mode}, ${finished})\n${
+    run.result ? formatAnalysisResult(run.result) : ""
+  }`;
+};
+
+// 프로젝트 목록 조회 도구
+const listProjects: Tool<Record<string, never>> = {
+  name: "list_projects",
+  description:
+    "등록된 프로젝트 목록을 반환합니다. 현재 세션에서 선택된 프로젝트는 *로 표시됩니다",
+  inputSchema: {
+    type: "object",
+    properties: {},
+    required: [],
+  },
+  async execute() {
+    try {
+      const projects = await ProjectService.getInstance().listProjects();
+      if (projects.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "등록된 프로젝트가 없습니다. CLI의 create-project 명령으로 프로젝트를 등록하세요",
+            },
+          ],
+        };
+      }
+
+      const selectedId = getSelectedProjectId();
+      return {
+        content: [
+          {
+            type: "text",
+            text: projects
+              .map(
+                (project) =>
+                  `${project.id === selectedId ? "*" : "-"} ${project.name} (${
+                    project.id
+                  })\n  경로: ${project.path}${
+                    project.description ? `\n  설명: ${project.description}` : ""
+                  }\n  마지막 분석 커밋: ${project.lastCommitHash || "없음"}`
+              )
+              .join("\n"),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "알 수 없는 오류가 발생했습니다";
+      console.error(`프로젝트 목록 조회 오류: ${errorMessage}`);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `프로젝트 목록 조회 중 오류가 발생했습니다: ${errorMessage}`,
+          },
+        ],
+      };
+    }
+  },
+};
+
+// 세션 프로젝트 선택 도구
+const selectProject: Tool<ProjectArgs> = {
+  name: "select_project",
+  description:
+    "현재 세션에서 사용할 프로젝트를 선택합니다. 이후 검색, 파일, 그래프 도구는 선택한 프로젝트를 대상으로 실행됩니다",
+  inputSchema: {
+    type: "object",
+    properties: {
+      project: {
+        type: "string",
+        description: "선택할 프로젝트의 ID 또는 이름",
+      },
+    },
+    required: ["project"],
+  },
+  async execute(args) {
+    try {
+      if (!args?.project || typeof args.project !== "string") {
+        throw new Error("선택할 프로젝트(project)의 ID 또는 이름이 필요합니다");
+      }
+
+      const project = await ProjectService.getInstance().resolveProject(
+        args.project
+      );
+      setSessionProjectId(project.id);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `프로젝트를 선택했습니다: ${project.name} (${project.id})\n경로: ${project.path}`,
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "알 수 없는 오류가 발생했습니다";
+      console.error(`프로젝트 선택 오류: ${errorMessage}`);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `프로젝트 선택 중 오류가 발생했습니다: ${errorMessage}`,
+          },
+        ],
+      };
+    }
+  },
+};
+
+// 프로젝트 상태 조회 도구
+const getProjectStatus: Tool<ProjectArgs> = {
+  name: "get_project_status",
+  description:
+    "프로젝트의 분석 상태를 반환합니다. 마지막 분석 이후 변경된 파일, 청크/임베딩 통계, 임베딩 모델, 벡터 인덱스와 진행 중인 분석의 단계 또는 마지막 분석 결과를 포함합니다",
+  inputSchema: {
+    type: "object",
+    properties: {
+      project: {
+        type: "string",
+        description: "조회할 프로젝트의 ID 또는 이름 (생략 시 선택된 프로젝트)",
+      },
+    },
+    required: [],
+  },
+  async execute(args) {
+    try {
+      const projectId = await resolveTargetProjectId(args?.project);
+      const projectService = ProjectService.getInstance();
+      const status = await projectService.getProjectStatus(projectId);
+      const run = projectService.getAnalysisRun(projectId);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              formatProjectStatus(status) +
+              (run ? `\n${formatAnalysisRun(run)}` : ""),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "알 수 없는 오류가 발생했습니다";
+      console.error(`프로젝트 상태 조회 오류: ${errorMessage}`);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `프로젝트 상태 조회 중 오류가 발생했습니다: ${errorMessage}`,
+          },
+        ],
+      };
+    }
+  },
+};
+
+// 프로젝트 분석 도구
+const analyzeProject: Tool<AnalyzeProjectArgs> = {
+  name: "analyze_project",
+  description:
+    "프로젝트를 분석해 코드 청크와 임베딩을 갱신합니다. 기본적으로 마지막 분석 이후 변경된 파일만 분석합니다. 분석은 백그라운드에서 실행되며 바로 반환하므로 진행 상황과 결과는 get_project_status로 확인합니다",
+  inputSchema: {
+    type: "object",
+    properties: {
+      project: {
+        type: "string",
+        description: "분석할 프로젝트의 ID 또는 이름 (생략 시 선택된 프로젝트)",
+      },
+      forceRefresh: {
+        type: "boolean",
+        description: "변경 여부와 관계없이 전체 프로젝트를 다시 분석할지 여부",
+        default: false,
+      },
+    },
+    required: [],
+  },
+  async execute(args) {
+    try {
+      const projectId = await resolveTargetProjectId(args?.project);
+      const projectService = ProjectService.getInstance();
+      const project = await projectService.getProject(projectId);
+      if (!project) {
+        throw new Error(`프로젝트를 찾을 수 없습니다: ${projectId}`);
+      }
+      projectService.startAnalysis(project.id, args?.forceRefresh === true);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `프로젝트 분석을 시작했습니다: ${project.name} (${project.id})\n진행 상황과 결과는 get_project_status로 확인하세요`,
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "알 수 없는 오류가 발생했습니다";
+      console.error(`프로젝트 분석 오류: ${errorMessage}`);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `프로젝트 분석 중 오류가 발생했습니다: ${errorMessage}`,
+          },
+        ],
+      };
+    }
+  },
+};
+
+export const projectTools = [
+  listProjects,
+  selectProject,
+  getProjectStatus,
+  analyzeProject,
+];
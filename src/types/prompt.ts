@@ -0,0 +1,15 @@
+import {
+  GetPromptResult,
+  PromptArgument,
+} from "@modelcontextprotocol/sdk/types.js";
+
+export type BasePrompt = {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+};
+
+// MCP 프롬프트 인자는 모두 문자열로 전달됨
+export type Prompt<TArgs = Record<string, string>> = BasePrompt & {
+  build: (args: TArgs) => Promise<GetPromptResult>;
+};